@@ -0,0 +1,49 @@
+/**
+ * Library entry point (package "main") for Node scripts, Nx executors and plugins.
+ * The ng-migrate CLI lives in index.ts and is built on the same migrate().
+ */
+export { migrate, ALL_STEPS } from './migrator';
+export type { MigratorOptions, MigrationRunResult, MigrationTotals } from './migrator';
+export { check } from './check';
+export type { CheckOptions, CheckResult } from './check';
+export { plan, EFFORT_MINUTES } from './plan';
+export type { PlanOptions, PlanResult, StepPlan, TeamPlan } from './plan';
+export { loadCodeOwners } from './utils/codeowners';
+export type { CodeOwners } from './utils/codeowners';
+export type {
+  Change,
+  Logger,
+  MigrationContext,
+  MigrationError,
+  MigrationResult,
+  MigrationStep,
+  Warning,
+  WarningCategory,
+  WarningSeverity,
+} from './types';
+export { ConsoleLogger, SilentLogger } from './utils/logger';
+export { defineRules, getRuleOptions, isRuleEnabled, isRuleSelected, listRules } from './utils/rules';
+export { nodeLocation } from './utils/location';
+export type { MigrationRule, RuleKind } from './utils/rules';
+export type { MigrationPlugin, PluginRule, PluginRuleOutput } from './utils/plugins';
+export type { RulePack, RulePackEntry } from './utils/rule-packs';
+export { defineAstRule, runAstRules } from './utils/rule-engine';
+export type { AstRule, AstRuleFile, AstRuleOutput } from './utils/rule-engine';
+export {
+  getSourceFiles,
+  moveImport,
+  removeFromNgModuleArrays,
+  removeObsoleteImport,
+  renameNamedImport,
+} from './utils/codemods';
+export { updatePackageVersions } from './utils/pkg';
+export type { PackageVersionOptions } from './utils/pkg';
+export { ECOSYSTEM_LIBRARIES, VERSION_MATRIX, getNodeEngines, getPackageVersions, rangeAllowsMajor } from './utils/versions';
+export type { VersionMatrixRow } from './utils/versions';
+export { AUDITED_PEERS, auditPeerDependencies, updatePeerAudit } from './utils/peer-audit';
+export type { PeerAudit, PeerConflict } from './utils/peer-audit';
+export type { MigratorConfig, ReportFormat, RuleOptions } from './utils/config';
+export { renderReport, writeReports } from './utils/report';
+export type { ReportInput } from './utils/report';
+export { listJournals, revertJournal } from './utils/journal';
+export type { Journal, JournalFile } from './utils/journal';
@@ -0,0 +1,85 @@
+import * as path from 'path';
+import { Change, MigrationError, Warning } from './types';
+import { ALL_STEPS, MigrationRunResult, MigratorOptions, migrate } from './migrator';
+import { SilentLogger } from './utils/logger';
+import { detectAngularVersion } from './utils/pkg';
+import { listRules } from './utils/rules';
+
+export type CheckOptions = Pick<
+  MigratorOptions,
+  'projectPath' | 'toVersion' | 'concurrency' | 'cache' | 'configPath' | 'plugins' | 'rulePacks' |
+  'only' | 'skip' | 'logger' | 'reportFormats' | 'reportDir'
+>;
+
+export interface CheckResult {
+  toVersion: number;
+  /** Angular major in package.json, null if it could not be read */
+  packageVersion: number | null;
+  /** Version-dependent rules left out because package.json is already at their step */
+  outgrownRules: string[];
+  /** Edits a real run would still make, each with the step that makes it */
+  pendingChanges: Array<Change & { step: string }>;
+  /** Warnings with severity error, i.e. code that will not compile or run on the target */
+  errorWarnings: Array<Warning & { step: string }>;
+  errors: Array<MigrationError & { step: string }>;
+  /** True when nothing above is pending and package.json is at the target version */
+  passed: boolean;
+  run: MigrationRunResult;
+}
+
+/**
+ * Run every step up to `toVersion` in dry-run mode, starting from the oldest
+ * supported version whatever package.json says, so removed APIs that come
+ * back into an already migrated codebase are caught. package.json versions
+ * are not checked rule by rule — only its Angular major is compared.
+ *
+ * Version-dependent rules (standalone: false) would rewrite code that is
+ * right for the installed Angular, so they only run for steps above it.
+ */
+export async function check(options: CheckOptions): Promise<CheckResult> {
+  const absPath = path.resolve(options.projectPath);
+  const oldest = Math.min(...ALL_STEPS.map(s => s.from));
+
+  const packageVersion = readPackageVersion(absPath);
+  const outgrownRules = packageVersion === null
+    ? []
+    : listRules().filter(r => r.versionDependent && r.step <= packageVersion).map(r => r.id);
+
+  const run = await migrate({
+    ...options,
+    skip: [...(options.skip ?? []), ...outgrownRules],
+    fromVersion: oldest,
+    dryRun: true,
+    skipPackageJson: true,
+    logger: options.logger ?? new SilentLogger(),
+    report: (options.reportFormats?.length ?? 0) > 0,
+    banner: false,
+  });
+
+  const pendingChanges = run.results.flatMap(r => r.changes.map(c => ({ ...c, step: r.step })));
+  const errorWarnings = run.results.flatMap(r =>
+    r.warnings.filter(w => w.severity === 'error').map(w => ({ ...w, step: r.step }))
+  );
+  const errors = run.results.flatMap(r => r.errors.map(e => ({ ...e, step: r.step })));
+
+  return {
+    toVersion: run.toVersion,
+    packageVersion,
+    outgrownRules,
+    pendingChanges,
+    errorWarnings,
+    errors,
+    passed: pendingChanges.length === 0 && errorWarnings.length === 0 && errors.length === 0 &&
+      (packageVersion === null || packageVersion >= run.toVersion),
+    run,
+  };
+}
+
+function readPackageVersion(projectPath: string): number | null {
+  try {
+    return detectAngularVersion(projectPath);
+  } catch {
+    // Libraries and workspaces without @angular/core at the root only get the code checks
+    return null;
+  }
+}
@@ -1,7 +1,17 @@
 #!/usr/bin/env node
 
+import * as path from 'path';
 import { Command } from 'commander';
 import { migrate } from './migrator';
+import { CheckResult, check } from './check';
+import { PlanResult, plan } from './plan';
+import { ConsoleLogger } from './utils/logger';
+import { listJournals, revertJournal } from './utils/journal';
+import { RuleSelection, listRules } from './utils/rules';
+import { REPORT_FORMATS, ReportFormat, loadConfig } from './utils/config';
+import { loadPlugins } from './utils/plugins';
+import { loadRulePacks } from './utils/rule-packs';
+import { describeLocation, relativeFile } from './utils/report';
 
 const program = new Command();
 
@@ -15,12 +25,25 @@ program
   .description('Run migration on an Angular project')
   .requiredOption('-p, --path <path>', 'Path to the Angular project root (where package.json lives)')
   .option('-f, --from <version>', 'Override source Angular version (useful when package.json already has target versions)')
-  .option('-t, --to <version>', 'Target Angular major version (default: 19)', '19')
+  .option('-t, --to <version>', 'Target Angular major version (default: "to" from the config, else 20)')
   .option('--dry-run', 'Preview changes without modifying files', false)
   .option('--skip-package-json', 'Skip version updates in package.json, only apply code transformations', false)
-  .action(async (opts: { path: string; from?: string; to: string; dryRun: boolean; skipPackageJson: boolean }) => {
-    const toVersion = parseInt(opts.to, 10);
-    if (isNaN(toVersion)) {
+  .option('--output-patch <file>', 'Write all changes to a git-applicable patch file instead of modifying the project')
+  .option('--no-rollback', 'Keep files written by a failed step instead of restoring them')
+  .option('--atomic', 'Roll back the whole run (not only the failed step) when a step fails', false)
+  .option('--resume', 'Continue an interrupted run from its first unfinished step (ignores --from/--to)', false)
+  .option('-c, --concurrency <n>', 'Worker threads for single-file detectors (default: 1, no workers)', '1')
+  .option('--no-cache', 'Re-analyse every file instead of reusing results from .ng-migrate/cache')
+  .option('--only <ids>', 'Run only these rules (comma-separated ids, see list-rules)')
+  .option('--skip <ids>', 'Leave out these rules (comma-separated ids, see list-rules)')
+  .option('--config <file>', 'Config file to use (default: ng-migrate.config.json in the project root)')
+  .option('--plugin <module>', 'Load extra migration steps or rules from a module (repeatable)', collect, [])
+  .option('--rule-pack <file>', 'Load import renames/moves/removals from a JSON or YAML rule pack (repeatable)', collect, [])
+  .option('--report-format <formats>', `Reports to write: ${REPORT_FORMATS.join(', ')} (comma-separated or repeatable, default: md)`, collect, [])
+  .option('--report-dir <dir>', 'Directory for the reports (default: the project root)')
+  .action(async (opts: { path: string; from?: string; to?: string; dryRun: boolean; skipPackageJson: boolean; outputPatch?: string; rollback: boolean; atomic: boolean; resume: boolean; concurrency: string; cache: boolean; only?: string; skip?: string; config?: string; plugin: string[]; rulePack: string[]; reportFormat: string[]; reportDir?: string }) => {
+    const toVersion = opts.to ? parseInt(opts.to, 10) : undefined;
+    if (opts.to && isNaN(toVersion!)) {
       console.error(`Invalid target version: ${opts.to}`);
       process.exit(1);
     }
@@ -31,6 +54,14 @@ program
       process.exit(1);
     }
 
+    const concurrency = parseInt(opts.concurrency, 10);
+    if (isNaN(concurrency) || concurrency < 1) {
+      console.error(`Invalid concurrency: ${opts.concurrency}`);
+      process.exit(1);
+    }
+
+    const reportFormats = parseReportFormats(opts.reportFormat);
+
     try {
       await migrate({
         projectPath: opts.path,
@@ -38,6 +69,19 @@ program
         toVersion,
         dryRun: opts.dryRun,
         skipPackageJson: opts.skipPackageJson,
+        outputPatch: opts.outputPatch,
+        rollback: opts.rollback,
+        atomic: opts.atomic,
+        resume: opts.resume,
+        concurrency,
+        cache: opts.cache,
+        configPath: opts.config,
+        plugins: opts.plugin,
+        rulePacks: opts.rulePack,
+        only: opts.only ? parseList(opts.only) : undefined,
+        skip: opts.skip ? parseList(opts.skip) : undefined,
+        reportFormats: reportFormats.length > 0 ? reportFormats : undefined,
+        reportDir: opts.reportDir,
       });
     } catch (err) {
       console.error(`\nMigration failed: ${err}`);
@@ -45,4 +89,302 @@ program
     }
   });
 
+program
+  .command('check')
+  .description('Fail (exit code 1) if the project still has changes to migrate or code that breaks on the target version — for CI')
+  .requiredOption('-p, --path <path>', 'Path to the Angular project root (where package.json lives)')
+  .option('-t, --to <version>', 'Target Angular major version (default: "to" from the config, else 20)')
+  .option('-c, --concurrency <n>', 'Worker threads for single-file detectors (default: 1, no workers)', '1')
+  .option('--no-cache', 'Re-analyse every file instead of reusing results from .ng-migrate/cache')
+  .option('--only <ids>', 'Check only these rules (comma-separated ids, see list-rules)')
+  .option('--skip <ids>', 'Leave out these rules (comma-separated ids, see list-rules)')
+  .option('--config <file>', 'Config file to use (default: ng-migrate.config.json in the project root)')
+  .option('--plugin <module>', 'Load extra migration steps or rules from a module (repeatable)', collect, [])
+  .option('--rule-pack <file>', 'Load import renames/moves/removals from a JSON or YAML rule pack (repeatable)', collect, [])
+  .option('--report-format <formats>', `Also write reports: ${REPORT_FORMATS.join(', ')} (comma-separated or repeatable, default: none)`, collect, [])
+  .option('--report-dir <dir>', 'Directory for the reports (default: the project root)')
+  .addHelpText('after', `
+Every step is replayed from Angular 14, whatever package.json says, except for
+rules that only fit code older than their step (standalone-false), which run
+only for steps above the Angular major in package.json. Changes you keep on
+purpose fail the check until their rule is left out, e.g. a project that stays
+on the browser builder (still supported):
+
+  ng-migrate check --path . --skip application-builder
+
+or permanently with "disabledRules": ["application-builder"] in ng-migrate.config.json.`)
+  .action(async (opts: { path: string; to?: string; concurrency: string; cache: boolean; only?: string; skip?: string; config?: string; plugin: string[]; rulePack: string[]; reportFormat: string[]; reportDir?: string }) => {
+    const toVersion = opts.to ? parseInt(opts.to, 10) : undefined;
+    if (opts.to && isNaN(toVersion!)) {
+      console.error(`Invalid target version: ${opts.to}`);
+      process.exit(1);
+    }
+
+    const concurrency = parseInt(opts.concurrency, 10);
+    if (isNaN(concurrency) || concurrency < 1) {
+      console.error(`Invalid concurrency: ${opts.concurrency}`);
+      process.exit(1);
+    }
+
+    const projectPath = path.resolve(opts.path);
+    let result: CheckResult;
+    try {
+      result = await check({
+        projectPath,
+        toVersion,
+        concurrency,
+        cache: opts.cache,
+        configPath: opts.config,
+        plugins: opts.plugin,
+        rulePacks: opts.rulePack,
+        only: opts.only ? parseList(opts.only) : undefined,
+        skip: opts.skip ? parseList(opts.skip) : undefined,
+        reportFormats: parseReportFormats(opts.reportFormat),
+        reportDir: opts.reportDir,
+      });
+    } catch (err) {
+      console.error(`\nCheck failed: ${err instanceof Error ? err.message : err}`);
+      process.exit(1);
+    }
+
+    printCheckSummary(projectPath, result, {
+      only: opts.only ? parseList(opts.only) : null,
+      skip: opts.skip ? parseList(opts.skip) : [],
+    });
+    process.exitCode = result.passed ? 0 : 1;
+  });
+
+program
+  .command('plan')
+  .description('Estimate the upgrade: automatic changes, manual warnings, affected files and teams per step (writes nothing)')
+  .requiredOption('-p, --path <path>', 'Path to the Angular project root (where package.json lives)')
+  .option('-f, --from <version>', 'Override source Angular version (default: from package.json)')
+  .option('-t, --to <version>', 'Target Angular major version (default: "to" from the config, else 20)')
+  .option('-c, --concurrency <n>', 'Worker threads for single-file detectors (default: 1, no workers)', '1')
+  .option('--only <ids>', 'Plan only these rules (comma-separated ids, see list-rules)')
+  .option('--skip <ids>', 'Leave out these rules (comma-separated ids, see list-rules)')
+  .option('--config <file>', 'Config file to use (default: ng-migrate.config.json in the project root)')
+  .option('--plugin <module>', 'Load extra migration steps or rules from a module (repeatable)', collect, [])
+  .option('--rule-pack <file>', 'Load import renames/moves/removals from a JSON or YAML rule pack (repeatable)', collect, [])
+  .option('--json', 'Print the plan as JSON instead of tables', false)
+  .action(async (opts: { path: string; from?: string; to?: string; concurrency: string; only?: string; skip?: string; config?: string; plugin: string[]; rulePack: string[]; json: boolean }) => {
+    const toVersion = opts.to ? parseInt(opts.to, 10) : undefined;
+    if (opts.to && isNaN(toVersion!)) {
+      console.error(`Invalid target version: ${opts.to}`);
+      process.exit(1);
+    }
+
+    const fromVersion = opts.from ? parseInt(opts.from, 10) : undefined;
+    if (opts.from && isNaN(fromVersion!)) {
+      console.error(`Invalid source version: ${opts.from}`);
+      process.exit(1);
+    }
+
+    const concurrency = parseInt(opts.concurrency, 10);
+    if (isNaN(concurrency) || concurrency < 1) {
+      console.error(`Invalid concurrency: ${opts.concurrency}`);
+      process.exit(1);
+    }
+
+    let result: PlanResult;
+    try {
+      result = await plan({
+        projectPath: path.resolve(opts.path),
+        fromVersion,
+        toVersion,
+        concurrency,
+        configPath: opts.config,
+        plugins: opts.plugin,
+        rulePacks: opts.rulePack,
+        only: opts.only ? parseList(opts.only) : undefined,
+        skip: opts.skip ? parseList(opts.skip) : undefined,
+      });
+    } catch (err) {
+      console.error(`\nPlanning failed: ${err instanceof Error ? err.message : err}`);
+      process.exit(1);
+    }
+
+    if (opts.json) {
+      const { run, ...summary } = result;
+      console.log(JSON.stringify(summary, null, 2));
+    } else {
+      printPlan(result);
+    }
+  });
+
+program
+  .command('revert')
+  .description('Restore the files changed by a previous run (uses the journal in .ng-migrate/)')
+  .requiredOption('-p, --path <path>', 'Path to the Angular project root')
+  .option('-r, --run <id>', 'Journal id of the run to revert (default: the latest not yet reverted)')
+  .option('-l, --list', 'List recorded runs instead of reverting', false)
+  .action((opts: { path: string; run?: string; list: boolean }) => {
+    const logger = new ConsoleLogger();
+    const projectPath = path.resolve(opts.path);
+
+    if (opts.list) {
+      const journals = listJournals(projectPath);
+      if (journals.length === 0) {
+        logger.info('No recorded migration runs');
+      }
+      for (const j of journals) {
+        const status = j.revertedAt ? `reverted ${j.revertedAt}` : 'applied';
+        logger.info(`${j.id}  Angular ${j.fromVersion} → ${j.toVersion}  ${j.files.length} file(s)  ${status}`);
+      }
+      return;
+    }
+
+    try {
+      const journal = revertJournal(projectPath, opts.run);
+      journal.files.forEach(f => logger.change(f.path, f.before === null ? 'deleted' : 'restored'));
+      logger.success(`Reverted run ${journal.id} (${journal.files.length} file(s))`);
+    } catch (err) {
+      console.error(`\nRevert failed: ${err instanceof Error ? err.message : err}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('list-rules')
+  .description('List every rule with its id, step and kind (ids work with --only / --skip)')
+  .option('-p, --path <path>', 'Project root, to also list rules of the plugins and rule packs in its config')
+  .option('--plugin <module>', 'Also list rules of this plugin module (repeatable)', collect, [])
+  .option('--rule-pack <file>', 'Also list rules of this rule pack (repeatable)', collect, [])
+  .action((opts: { path?: string; plugin: string[]; rulePack: string[] }) => {
+    try {
+      if (opts.path) {
+        const projectPath = path.resolve(opts.path);
+        const { config } = loadConfig(projectPath);
+        loadPlugins(config.plugins ?? [], projectPath);
+        loadRulePacks(config.rulePacks ?? [], projectPath);
+      }
+      loadPlugins(opts.plugin, process.cwd());
+      loadRulePacks(opts.rulePack, process.cwd());
+    } catch (err) {
+      console.error(`\nCould not load plugins: ${err instanceof Error ? err.message : err}`);
+      process.exit(1);
+    }
+
+    let step = 0;
+    for (const rule of listRules()) {
+      if (rule.step !== step) {
+        step = rule.step;
+        console.log(`\n  Angular ${step - 1} → ${step}`);
+      }
+      console.log(`    ${rule.id.padEnd(40)} ${rule.kind.padEnd(9)} ${rule.description}`);
+    }
+    console.log('');
+  });
+
+function printCheckSummary(projectPath: string, result: CheckResult, selection: RuleSelection): void {
+  const { toVersion, packageVersion, outgrownRules, pendingChanges, errorWarnings, errors } = result;
+  console.log('');
+  if (result.passed) {
+    console.log(`  ✓ Nothing left to migrate for Angular ${toVersion}`);
+    console.log('');
+    return;
+  }
+
+  console.log(`  ✗ Migration to Angular ${toVersion} is not complete`);
+  if (packageVersion !== null && packageVersion < toVersion) {
+    console.log(`    package.json is at Angular ${packageVersion}`);
+  }
+  if (pendingChanges.length > 0) {
+    console.log(`\n  Auto-fixable (${pendingChanges.length}):`);
+    for (const c of pendingChanges) {
+      console.log(`    ${relativeFile(projectPath, c.file)}  ${c.description}${c.rule ? `  [${c.rule}]` : ''}`);
+    }
+  }
+  if (errorWarnings.length > 0) {
+    console.log(`\n  Manual fixes required (${errorWarnings.length}):`);
+    for (const w of errorWarnings) {
+      console.log(`    ${describeLocation(projectPath, w)}  ${w.message}${w.rule ? `  [${w.rule}]` : ''}`);
+    }
+  }
+  if (errors.length > 0) {
+    console.log(`\n  Errors (${errors.length}):`);
+    for (const e of errors) {
+      console.log(`    ${e.step}: ${e.message}`);
+    }
+  }
+  console.log('');
+  if (pendingChanges.length > 0 && packageVersion !== null && packageVersion < toVersion) {
+    console.log(`  Apply the automatic fixes with: ng-migrate run --path ${projectPath} --to ${toVersion}`);
+    console.log('');
+  } else if (pendingChanges.length > 0) {
+    // run starts at the package.json version; replay the checked steps the way check did
+    const skipped = [...new Set([...selection.skip, ...outgrownRules])];
+    console.log(
+      `  Apply the automatic fixes with: ng-migrate run --path ${projectPath} --from ${result.run.fromVersion} --to ${toVersion} --skip-package-json` +
+      (selection.only ? ` --only ${selection.only.join(',')}` : '') +
+      (skipped.length > 0 ? ` --skip ${skipped.join(',')}` : '')
+    );
+    console.log('');
+  }
+}
+
+function printPlan(result: PlanResult): void {
+  const { fromVersion, toVersion, steps, teams, codeOwnersFile, effortHours } = result;
+  const row = (cells: Array<string | number>, widths: number[]) =>
+    '  ' + cells.map((cell, i) => i === 0 ? String(cell).padEnd(widths[i]) : String(cell).padStart(widths[i])).join('  ');
+
+  console.log('');
+  console.log(`  Migration plan: Angular ${fromVersion} → ${toVersion}`);
+  console.log(`  ─────────────────────────────────────────`);
+  if (steps.length === 0) {
+    console.log(`  Nothing to migrate.`);
+    console.log('');
+    return;
+  }
+
+  const stepWidths = [Math.max(4, ...steps.map(s => s.step.length)), 4, 6, 5, 5, 6];
+  console.log(row(['Step', 'Auto', 'Manual', 'Notes', 'Files', 'Effort'], stepWidths));
+  for (const s of steps) {
+    console.log(row([s.step, s.changes, s.manual, s.notes, s.files.length, `${s.effortHours}h`], stepWidths));
+    if (s.errors > 0) {
+      console.log(`    ✗ ${s.errors} error(s) — later steps could not be planned`);
+    }
+  }
+  const allFiles = new Set(steps.flatMap(s => s.files));
+  console.log(row([
+    'Total',
+    steps.reduce((n, s) => n + s.changes, 0),
+    steps.reduce((n, s) => n + s.manual, 0),
+    steps.reduce((n, s) => n + s.notes, 0),
+    allFiles.size,
+    `${effortHours}h`,
+  ], stepWidths));
+
+  console.log('');
+  console.log(`  Teams${codeOwnersFile ? '' : ' (no CODEOWNERS found)'}`);
+  const teamWidths = [Math.max(5, ...teams.map(t => t.owner.length)), 5, 4, 6, 5];
+  console.log(row(['Owner', 'Files', 'Auto', 'Manual', 'Notes'], teamWidths));
+  for (const t of teams) {
+    console.log(row([t.owner, t.files.length, t.changes, t.manual, t.notes], teamWidths));
+  }
+
+  console.log('');
+  console.log(`  Estimated effort: ~${effortHours}h (about ${Math.max(1, Math.ceil(effortHours / 6))} working day(s))`);
+  console.log(`  Auto = applied by ng-migrate run; Manual = warnings to fix by hand; Notes = behavior changes to review`);
+  console.log('');
+}
+
+function parseReportFormats(values: string[]): ReportFormat[] {
+  const formats = values.flatMap(parseList);
+  const bad = formats.filter(f => !(REPORT_FORMATS as readonly string[]).includes(f));
+  if (bad.length > 0) {
+    console.error(`Unsupported report format(s): ${bad.join(', ')} (supported: ${REPORT_FORMATS.join(', ')})`);
+    process.exit(1);
+  }
+  return formats as ReportFormat[];
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseList(value: string): string[] {
+  return value.split(',').map(id => id.trim()).filter(id => id.length > 0);
+}
+
 program.parse(process.argv);
@@ -0,0 +1,161 @@
+import { MigrationStep, MigrationContext, MigrationResult } from '../types';
+import { PackageVersionOptions, readPackageJson, updatePackageVersions } from '../utils/pkg';
+import {
+  flagMaterialMdcImports,
+  getSourceFiles,
+  migrateDatePipeDefaultTimezone,
+  migrateMaterialLegacyImports,
+  relativeLinkResolutionRule,
+} from '../utils/codemods';
+import { runAstRules } from '../utils/rule-engine';
+import { defineRules, getRuleOptions, isRuleEnabled } from '../utils/rules';
+import { removeAngularCompilerOption } from '../utils/tsconfig';
+
+const rules = defineRules(15, {
+  updatePackages: {
+    id: 'update-packages-v15',
+    kind: 'auto-fix',
+    description: 'Bump Angular, its tooling and ecosystem packages in package.json to the Angular 15 row of the version matrix',
+  },
+  enableIvy: {
+    id: 'enable-ivy-option',
+    kind: 'auto-fix',
+    description: 'Remove angularCompilerOptions.enableIvy from tsconfig files',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  datePipeDefaultTimezone: {
+    id: 'date-pipe-default-timezone',
+    kind: 'auto-fix',
+    description: 'Replace DATE_PIPE_DEFAULT_TIMEZONE with DATE_PIPE_DEFAULT_OPTIONS ({ timezone })',
+    category: 'manual-fix',
+  },
+  relativeLinkResolution: {
+    id: relativeLinkResolutionRule.id,
+    kind: 'auto-fix',
+    description: 'Remove relativeLinkResolution from RouterModule.forRoot() options and ExtraOptions',
+    category: 'behavior-change',
+  },
+  materialLegacyImports: {
+    id: 'material-legacy-imports',
+    kind: 'auto-fix',
+    description: 'Point Material component imports at the legacy-* (non-MDC) entry points via MatLegacy* aliases (flag them instead when the run goes past 16)',
+    category: 'deprecation',
+  },
+});
+
+/**
+ * Angular 14 → 15
+ *
+ * Breaking changes (official migration guide):
+ *
+ * REMOVED APIs:
+ * - angularCompilerOptions.enableIvy — View Engine is gone, Ivy is the only compiler
+ * - relativeLinkResolution router option — 'corrected' is now the only behavior
+ *
+ * DEPRECATIONS (migrated):
+ * - DATE_PIPE_DEFAULT_TIMEZONE → DATE_PIPE_DEFAULT_OPTIONS with { timezone }
+ *
+ * ANGULAR MATERIAL:
+ * - Most components are rebuilt on MDC (new DOM, styles and density). Imports
+ *   are switched to the legacy-* entry points with MatLegacy* aliases, which
+ *   keep the old components until Material 17. A run that ends at 17 or later
+ *   would break those imports, so there they are only flagged.
+ */
+export const v14ToV15: MigrationStep = {
+  from: 14,
+  to: 15,
+  name: 'Angular 14 → 15',
+
+  async run(ctx: MigrationContext): Promise<MigrationResult> {
+    const result: MigrationResult = {
+      step: this.name,
+      changes: [],
+      warnings: [],
+      errors: [],
+    };
+
+    ctx.logger.step('Angular 14 → 15');
+
+    // Read before the bump below: legacy aliases only make sense coming from Material 14
+    const materialMajor = getMaterialMajor(ctx);
+
+    // 1. Update package.json versions
+    if (isRuleEnabled(ctx, rules.updatePackages)) {
+      ctx.logger.info('Updating package versions...');
+      const { changes: pkgChanges, warnings: pkgWarnings } = updatePackageVersions(
+        ctx, 15, getRuleOptions<PackageVersionOptions>(ctx, rules.updatePackages).versions
+      );
+      pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      pkgWarnings.forEach(w => ctx.logger.warn(w.message));
+      result.changes.push(...pkgChanges);
+      result.warnings.push(...pkgWarnings.map(w => ({ ...w, rule: rules.updatePackages.id })));
+    }
+
+    // 2. tsconfig: enableIvy is no longer a valid option
+    if (isRuleEnabled(ctx, rules.enableIvy)) {
+      for (const removed of removeAngularCompilerOption(ctx, 'enableIvy')) {
+        const { value, ...location } = removed;
+        ctx.logger.change(removed.file, `Removed angularCompilerOptions.enableIvy (${value})`);
+        result.changes.push({
+          file: removed.file,
+          description: `Removed angularCompilerOptions.enableIvy (${value}) — Ivy is the only compiler in Angular 15`,
+        });
+        if (value === 'false') {
+          result.warnings.push({
+            ...location,
+            message: 'enableIvy: false (View Engine) is no longer supported. The project now compiles with Ivy; libraries must be built with "compilationMode": "partial" to be publishable.',
+            rule: rules.enableIvy.id,
+          });
+        }
+      }
+    }
+
+    // 3. TypeScript codemods
+    ctx.logger.info('Scanning TypeScript files...');
+    const sourceFiles = getSourceFiles(ctx.project, ctx.projectPath);
+    ctx.logger.info(`Found ${sourceFiles.length} TypeScript files`);
+
+    // DATE_PIPE_DEFAULT_TIMEZONE → DATE_PIPE_DEFAULT_OPTIONS
+    if (isRuleEnabled(ctx, rules.datePipeDefaultTimezone)) {
+      ctx.logger.info('Migrating DATE_PIPE_DEFAULT_TIMEZONE...');
+      const { changes: dpChanges, warnings: dpWarnings } = migrateDatePipeDefaultTimezone(sourceFiles, ctx);
+      dpChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...dpChanges);
+      result.warnings.push(...dpWarnings.map(w => ({ ...w, rule: rules.datePipeDefaultTimezone.id })));
+    }
+
+    // relativeLinkResolution — removed from the router options
+    const { changes: rlrChanges, warnings: rlrWarnings } = await runAstRules(sourceFiles, [relativeLinkResolutionRule], ctx);
+    rlrChanges.forEach(c => ctx.logger.change(c.file, c.description));
+    rlrWarnings.forEach(w => ctx.logger.warn(w.message));
+    result.changes.push(...rlrChanges);
+    result.warnings.push(...rlrWarnings);
+
+    // 4. Angular Material: keep the pre-MDC components via MatLegacy* aliases
+    if (isRuleEnabled(ctx, rules.materialLegacyImports) && materialMajor !== null && materialMajor < 15) {
+      if (ctx.targetVersion >= 17) {
+        // The same run bumps Material past 16, where the legacy-* entry points no longer exist
+        const matWarnings = flagMaterialMdcImports(sourceFiles, ctx.targetVersion);
+        matWarnings.forEach(w => ctx.logger.warn(w.message));
+        result.warnings.push(...matWarnings.map(w => ({ ...w, rule: rules.materialLegacyImports.id })));
+      } else {
+        ctx.logger.info('Switching Material imports to legacy entry points...');
+        const { changes: matChanges, warnings: matWarnings } = migrateMaterialLegacyImports(sourceFiles, ctx);
+        matChanges.forEach(c => ctx.logger.change(c.file, c.description));
+        result.changes.push(...matChanges);
+        result.warnings.push(...matWarnings.map(w => ({ ...w, rule: rules.materialLegacyImports.id })));
+      }
+    }
+
+    return result;
+  },
+};
+
+/** Major of @angular/material in package.json, null when the project does not use it */
+function getMaterialMajor(ctx: MigrationContext): number | null {
+  const pkg = readPackageJson(ctx.projectPath, ctx.files);
+  const range = pkg.dependencies?.['@angular/material'] ?? pkg.devDependencies?.['@angular/material'];
+  const major = range ? /\d+/.exec(range) : null;
+  return major ? parseInt(major[0], 10) : null;
+}
@@ -1,13 +1,90 @@
 import { MigrationStep, MigrationContext, MigrationResult } from '../types';
-import { updatePackageVersions } from '../utils/pkg';
+import { PackageVersionOptions, updatePackageVersions } from '../utils/pkg';
 import {
-  createTsProject,
   getSourceFiles,
-  ensureModuleWithProvidersGeneric,
+  moduleWithProvidersGenericRule,
   moveImport,
   removeObsoleteImport,
   removeFromNgModuleArrays,
 } from '../utils/codemods';
+import { runAstRules } from '../utils/rule-engine';
+import { defineRules, getRuleOptions, isRuleEnabled } from '../utils/rules';
+import { nodeLocation } from '../utils/location';
+import { findInResources, getComponentStyles } from '../utils/templates';
+import { Node } from 'ts-morph';
+
+const rules = defineRules(16, {
+  updatePackages: {
+    id: 'update-packages-v16',
+    kind: 'auto-fix',
+    description: 'Bump Angular, its tooling and ecosystem packages in package.json to the Angular 16 row of the version matrix',
+  },
+  transferStateImports: {
+    id: 'transfer-state-imports',
+    kind: 'auto-fix',
+    description: 'Move TransferState, makeStateKey and StateKey imports from @angular/platform-browser to @angular/core',
+  },
+  xhrFactoryImport: {
+    id: 'xhr-factory-import',
+    kind: 'auto-fix',
+    description: 'Move the XhrFactory import from @angular/common/http to @angular/common',
+  },
+  browserTransferStateModule: {
+    id: 'browser-transfer-state-module',
+    kind: 'auto-fix',
+    description: 'Remove BrowserTransferStateModule imports and NgModule imports[] entries',
+  },
+  serverTransferStateModule: {
+    id: 'server-transfer-state-module',
+    kind: 'auto-fix',
+    description: 'Remove ServerTransferStateModule imports and NgModule imports[] entries',
+    category: 'manual-fix',
+  },
+  renderModuleFactory: {
+    id: 'render-module-factory',
+    kind: 'auto-fix',
+    description: 'Remove the renderModuleFactory import and flag its usages (use renderModule())',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  analyzeForEntryComponents: {
+    id: 'analyze-for-entry-components',
+    kind: 'auto-fix',
+    description: 'Remove the ANALYZE_FOR_ENTRY_COMPONENTS import',
+  },
+  reflectiveInjector: {
+    id: 'reflective-injector',
+    kind: 'auto-fix',
+    description: 'Remove the ReflectiveInjector import and flag its usages (use Injector.create())',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  entryComponents: {
+    id: 'entry-components',
+    kind: 'detect',
+    description: 'Flag entryComponents in @NgModule decorators',
+    category: 'manual-fix',
+  },
+  moduleWithProvidersGeneric: {
+    id: moduleWithProvidersGenericRule.id,
+    kind: 'detect',
+    description: 'Flag ModuleWithProviders without its generic type argument',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  canLoadDeprecation: {
+    id: 'can-load-deprecation',
+    kind: 'detect',
+    description: 'Flag CanLoad imports (migrated to CanMatch in the 16 → 17 step)',
+    category: 'deprecation',
+  },
+  keyframesScoping: {
+    id: 'keyframes-scoping',
+    kind: 'detect',
+    description: 'Note on @keyframes in component styles that their names are now scoped per component',
+    category: 'behavior-change',
+  },
+});
 
 /**
  * Angular 15 → 16
@@ -49,164 +126,172 @@ export const v15ToV16: MigrationStep = {
     ctx.logger.step('Angular 15 → 16');
 
     // 1. Update package.json versions
-    ctx.logger.info('Updating package versions...');
-    const pkgChanges = updatePackageVersions(ctx, {
-      '@angular/animations':              '^16.2.0',
-      '@angular/cdk':                      '^16.2.0',
-      '@angular/cli':                      '^16.2.0',
-      '@angular/common':                   '^16.2.0',
-      '@angular/compiler':                 '^16.2.0',
-      '@angular/compiler-cli':             '^16.2.0',
-      '@angular/core':                     '^16.2.0',
-      '@angular/elements':                 '^16.2.0',
-      '@angular/forms':                    '^16.2.0',
-      '@angular/language-service':         '^16.2.0',
-      '@angular/material':                 '^16.2.0',
-      '@angular/platform-browser':         '^16.2.0',
-      '@angular/platform-browser-dynamic': '^16.2.0',
-      '@angular/platform-server':          '^16.2.0',
-      '@angular/router':                   '^16.2.0',
-      '@angular/service-worker':           '^16.2.0',
-      '@angular-devkit/build-angular':     '^16.2.0',
-      '@angular-devkit/core':              '^16.2.0',
-      '@angular-devkit/schematics':        '^16.2.0',
-      'typescript':                        '~5.1.0',
-      'zone.js':                           '~0.13.0',
-      'rxjs':                              '~7.8.0',
-    });
-    pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...pkgChanges);
+    if (isRuleEnabled(ctx, rules.updatePackages)) {
+      ctx.logger.info('Updating package versions...');
+      const { changes: pkgChanges, warnings: pkgWarnings } = updatePackageVersions(
+        ctx, 16, getRuleOptions<PackageVersionOptions>(ctx, rules.updatePackages).versions
+      );
+      pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      pkgWarnings.forEach(w => ctx.logger.warn(w.message));
+      result.changes.push(...pkgChanges);
+      result.warnings.push(...pkgWarnings.map(w => ({ ...w, rule: rules.updatePackages.id })));
+    }
 
     // 2. TypeScript codemods
     ctx.logger.info('Scanning TypeScript files...');
-    let project;
-    try {
-      project = createTsProject(ctx.projectPath);
-    } catch (e) {
-      result.warnings.push({ file: 'tsconfig.json', message: `Could not load TypeScript project: ${e}` });
-      return result;
-    }
-
-    const sourceFiles = getSourceFiles(project, ctx.projectPath);
+    const sourceFiles = getSourceFiles(ctx.project, ctx.projectPath);
     ctx.logger.info(`Found ${sourceFiles.length} TypeScript files`);
 
     // --- Import moves ---
 
     // TransferState, makeStateKey, StateKey: platform-browser → core
-    ctx.logger.info('Migrating TransferState imports...');
-    for (const sym of ['TransferState', 'makeStateKey', 'StateKey'] as const) {
-      const changes = moveImport(sourceFiles, sym, '@angular/platform-browser', '@angular/core', ctx);
-      changes.forEach(c => ctx.logger.change(c.file, c.description));
-      result.changes.push(...changes);
+    if (isRuleEnabled(ctx, rules.transferStateImports)) {
+      ctx.logger.info('Migrating TransferState imports...');
+      for (const sym of ['TransferState', 'makeStateKey', 'StateKey'] as const) {
+        const changes = moveImport(sourceFiles, sym, '@angular/platform-browser', '@angular/core', ctx);
+        changes.forEach(c => ctx.logger.change(c.file, c.description));
+        result.changes.push(...changes);
+      }
     }
 
     // XhrFactory: common/http → common
-    ctx.logger.info('Migrating XhrFactory import...');
-    const xhrChanges = moveImport(sourceFiles, 'XhrFactory', '@angular/common/http', '@angular/common', ctx);
-    xhrChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...xhrChanges);
+    if (isRuleEnabled(ctx, rules.xhrFactoryImport)) {
+      ctx.logger.info('Migrating XhrFactory import...');
+      const xhrChanges = moveImport(sourceFiles, 'XhrFactory', '@angular/common/http', '@angular/common', ctx);
+      xhrChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...xhrChanges);
+    }
 
     // --- Removed APIs ---
 
     // BrowserTransferStateModule — removed, TransferState can be injected directly
-    ctx.logger.info('Removing BrowserTransferStateModule...');
-    const { changes: btsmChanges, warnings: btsmWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/platform-browser', 'BrowserTransferStateModule', ctx
-    );
-    btsmChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...btsmChanges);
-
-    // Also remove BrowserTransferStateModule from NgModule imports[] arrays
-    const btsmArrayChanges = removeFromNgModuleArrays(sourceFiles, 'BrowserTransferStateModule', ctx);
-    btsmArrayChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...btsmArrayChanges);
+    if (isRuleEnabled(ctx, rules.browserTransferStateModule)) {
+      ctx.logger.info('Removing BrowserTransferStateModule...');
+      const { changes: btsmChanges, warnings: btsmWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/platform-browser', 'BrowserTransferStateModule', ctx
+      );
+      btsmChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...btsmChanges);
+
+      // Also remove BrowserTransferStateModule from NgModule imports[] arrays
+      const btsmArrayChanges = removeFromNgModuleArrays(sourceFiles, 'BrowserTransferStateModule', ctx);
+      btsmArrayChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...btsmArrayChanges);
+    }
 
     // ServerTransferStateModule — removed
-    const { changes: stsmChanges, warnings: stsmWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/platform-server', 'ServerTransferStateModule', ctx
-    );
-    stsmChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...stsmChanges);
-    const stsmArrayChanges = removeFromNgModuleArrays(sourceFiles, 'ServerTransferStateModule', ctx);
-    stsmArrayChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...stsmArrayChanges);
-    result.warnings.push(...stsmWarnings.map(w => ({
-      ...w,
-      message: `ServerTransferStateModule removed. Remove from NgModule imports[], TransferState is now injected automatically.`,
-    })));
+    if (isRuleEnabled(ctx, rules.serverTransferStateModule)) {
+      const { changes: stsmChanges, warnings: stsmWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/platform-server', 'ServerTransferStateModule', ctx
+      );
+      stsmChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...stsmChanges);
+      const stsmArrayChanges = removeFromNgModuleArrays(sourceFiles, 'ServerTransferStateModule', ctx);
+      stsmArrayChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...stsmArrayChanges);
+      result.warnings.push(...stsmWarnings.map(w => ({
+        ...w,
+        message: `ServerTransferStateModule removed. Remove from NgModule imports[], TransferState is now injected automatically.`,
+        rule: rules.serverTransferStateModule.id,
+      })));
+    }
 
     // renderModuleFactory — removed, use renderModule
-    const { changes: rmfChanges, warnings: rmfWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/platform-server', 'renderModuleFactory', ctx
-    );
-    rmfChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...rmfChanges);
-    result.warnings.push(...rmfWarnings.map(w => ({
-      ...w,
-      message: `renderModuleFactory removed. Use renderModule() from '@angular/platform-server' instead.`,
-    })));
+    if (isRuleEnabled(ctx, rules.renderModuleFactory)) {
+      const { changes: rmfChanges, warnings: rmfWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/platform-server', 'renderModuleFactory', ctx
+      );
+      rmfChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...rmfChanges);
+      result.warnings.push(...rmfWarnings.map(w => ({
+        ...w,
+        message: `renderModuleFactory removed. Use renderModule() from '@angular/platform-server' instead.`,
+        rule: rules.renderModuleFactory.id,
+      })));
+    }
 
     // ANALYZE_FOR_ENTRY_COMPONENTS — removed (Ivy handles this automatically)
-    const { changes: afecChanges } = removeObsoleteImport(
-      sourceFiles, '@angular/core', 'ANALYZE_FOR_ENTRY_COMPONENTS', ctx
-    );
-    afecChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...afecChanges);
+    if (isRuleEnabled(ctx, rules.analyzeForEntryComponents)) {
+      const { changes: afecChanges } = removeObsoleteImport(
+        sourceFiles, '@angular/core', 'ANALYZE_FOR_ENTRY_COMPONENTS', ctx
+      );
+      afecChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...afecChanges);
+    }
 
     // ReflectiveInjector — removed, use Injector.create()
-    const { changes: riChanges, warnings: riWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/core', 'ReflectiveInjector', ctx
-    );
-    riChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...riChanges);
-    result.warnings.push(...riWarnings.map(w => ({
-      ...w,
-      message: `ReflectiveInjector removed. Replace with Injector.create({ providers: [...] }).`,
-    })));
+    if (isRuleEnabled(ctx, rules.reflectiveInjector)) {
+      const { changes: riChanges, warnings: riWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/core', 'ReflectiveInjector', ctx
+      );
+      riChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...riChanges);
+      result.warnings.push(...riWarnings.map(w => ({
+        ...w,
+        message: `ReflectiveInjector removed. Replace with Injector.create({ providers: [...] }).`,
+        rule: rules.reflectiveInjector.id,
+      })));
+    }
 
     // --- Check NgModule entryComponents ---
-    ctx.logger.info('Checking for removed entryComponents...');
-    for (const sf of sourceFiles) {
-      sf.getClasses().forEach(cls => {
-        cls.getDecorators().forEach(dec => {
-          if (dec.getName() !== 'NgModule') return;
-          const args = dec.getArguments();
-          if (args.length === 0) return;
-          const argText = args[0].getText();
-          if (argText.includes('entryComponents')) {
-            result.warnings.push({
-              file: sf.getFilePath(),
-              message: `${cls.getName() ?? 'NgModule'}: 'entryComponents' is removed in Angular 16. Remove it from the decorator — Ivy handles dynamic components automatically.`,
-            });
-            ctx.logger.warn(`${sf.getBaseName()}: entryComponents found — remove it`);
-          }
+    if (isRuleEnabled(ctx, rules.entryComponents)) {
+      ctx.logger.info('Checking for removed entryComponents...');
+      for (const sf of sourceFiles) {
+        sf.getClasses().forEach(cls => {
+          cls.getDecorators().forEach(dec => {
+            if (dec.getName() !== 'NgModule') return;
+            const args = dec.getArguments();
+            if (args.length === 0) return;
+            const argText = args[0].getText();
+            if (argText.includes('entryComponents')) {
+              const prop = Node.isObjectLiteralExpression(args[0]) ? args[0].getProperty('entryComponents') : undefined;
+              result.warnings.push({
+                file: sf.getFilePath(),
+                message: `${cls.getName() ?? 'NgModule'}: 'entryComponents' is removed in Angular 16. Remove it from the decorator — Ivy handles dynamic components automatically.`,
+                ...nodeLocation(prop ?? dec),
+                rule: rules.entryComponents.id,
+              });
+              ctx.logger.warn(`${sf.getBaseName()}: entryComponents found — remove it`);
+            }
+          });
         });
-      });
+      }
     }
 
     // --- ModuleWithProviders<T> check ---
-    const { warnings: mwpWarnings } = ensureModuleWithProvidersGeneric(sourceFiles, ctx);
+    const { warnings: mwpWarnings } = await runAstRules(sourceFiles, [moduleWithProvidersGenericRule], ctx);
     mwpWarnings.forEach(w => ctx.logger.warn(w.message));
     result.warnings.push(...mwpWarnings);
 
     // --- CanLoad deprecation warning (removed in v17) ---
-    for (const sf of sourceFiles) {
-      const hasCanLoad = sf.getImportDeclarations()
-        .some(d => d.getModuleSpecifierValue() === '@angular/router' &&
-          d.getNamedImports().some(ni => ni.getName() === 'CanLoad'));
-      if (hasCanLoad) {
-        result.warnings.push({
-          file: sf.getFilePath(),
-          message: 'CanLoad is deprecated (Angular 15) and removed in Angular 17. Will be migrated to CanMatch automatically in the next step.',
-        });
+    if (isRuleEnabled(ctx, rules.canLoadDeprecation)) {
+      for (const sf of sourceFiles) {
+        const canLoadImport = sf.getImportDeclarations()
+          .filter(d => d.getModuleSpecifierValue() === '@angular/router')
+          .flatMap(d => d.getNamedImports())
+          .find(ni => ni.getName() === 'CanLoad');
+        if (canLoadImport) {
+          result.warnings.push({
+            file: sf.getFilePath(),
+            message: 'CanLoad is deprecated (Angular 15) and removed in Angular 17. Will be migrated to CanMatch automatically in the next step.',
+            ...nodeLocation(canLoadImport),
+            rule: rules.canLoadDeprecation.id,
+          });
+        }
       }
     }
 
     // --- Behavior change warnings ---
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 16] CSS keyframe animation names are now scoped per component. If you reference keyframe names globally, move them to a global stylesheet or use ViewEncapsulation.None.',
-    });
+    if (isRuleEnabled(ctx, rules.keyframesScoping)) {
+      for (const { resource, ...location } of findInResources(getComponentStyles(sourceFiles, ctx), /@keyframes\b/g)) {
+        result.warnings.push({
+          file: resource.file,
+          message: '[Angular 16] CSS keyframe animation names are now scoped per component. If this animation is referenced outside the component, move it to a global stylesheet or use ViewEncapsulation.None.',
+          ...location,
+          rule: rules.keyframesScoping.id,
+        });
+      }
+    }
 
     return result;
   },
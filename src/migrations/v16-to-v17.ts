@@ -1,19 +1,210 @@
 import { MigrationStep, MigrationContext, MigrationResult } from '../types';
-import { updatePackageVersions, replacePackageDependency } from '../utils/pkg';
+import { PackageVersionOptions, updatePackageVersions, replacePackageDependency } from '../utils/pkg';
+import { getPackageVersions } from '../utils/versions';
 import { migrateBrowserBuilderToApplication, removeDefaultProject, renameBrowserTargetToBuildTarget } from '../utils/angular-json';
 import {
-  createTsProject,
   getSourceFiles,
   renameNamedImport,
   moveImport,
   removeObsoleteImport,
-  migrateComponentFactoryResolver,
+  componentFactoryResolverRule,
   migrateCanLoadToCanMatch,
   fixZoneJsImports,
   removeDominoSetup,
 } from '../utils/codemods';
+import { defineAstRule, runAstRules } from '../utils/rule-engine';
+import { defineRules, getRuleOptions, isRuleEnabled } from '../utils/rules';
+import { nodeLocation } from '../utils/location';
+import { findInResources, getComponentTemplates } from '../utils/templates';
 import { SyntaxKind, Node } from 'ts-morph';
 
+// Detect WritableSignal.mutate() usage
+const signalMutateRule = defineAstRule({
+  id: 'signal-mutate',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.CallExpression]: (call, file) => {
+      const expr = call.getExpression();
+      if (!Node.isPropertyAccessExpression(expr)) return;
+      if (expr.getName() === 'mutate') {
+        file.addWarning(`signal.mutate() removed in Angular 17. Replace with signal.update(val => { ...val, changedProp }). Found: ${call.getText().slice(0, 80)}`, call);
+      }
+    },
+  },
+});
+
+// Detect direct Router property assignments (now must go through provideRouter)
+const movedRouterProps = [
+  'urlHandlingStrategy',
+  'canceledNavigationResolution',
+  'paramsInheritanceStrategy',
+  'titleStrategy',
+  'urlUpdateStrategy',
+  'malformedUriErrorHandler',
+];
+
+const routerPropertyAssignmentRule = defineAstRule({
+  id: 'router-property-assignment',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.BinaryExpression]: (bin, file) => {
+      const left = bin.getLeft();
+      if (!Node.isPropertyAccessExpression(left)) return;
+      if (movedRouterProps.includes(left.getName())) {
+        file.addWarning(`router.${left.getName()} = ... is no longer supported in Angular 17. Configure via provideRouter([routes], with${left.getName().charAt(0).toUpperCase() + left.getName().slice(1)}(...)) or RouterModule.forRoot config.`, bin);
+      }
+    },
+  },
+});
+
+// ViewEncapsulation.None styles are global, and are now removed with the component
+const removeStylesOnDestroyRule = defineAstRule({
+  id: 'remove-styles-on-destroy',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.PropertyAssignment]: (prop, file) => {
+      if (prop.getName() !== 'encapsulation') return;
+      if (!prop.getInitializer()?.getText().endsWith('ViewEncapsulation.None')) return;
+      file.addWarning('[Angular 17] REMOVE_STYLES_ON_COMPONENT_DESTROY now defaults to true, so the global styles of this ViewEncapsulation.None component are removed when it is destroyed. If other views rely on them, move them to a global stylesheet or add { provide: REMOVE_STYLES_ON_COMPONENT_DESTROY, useValue: false } to providers.', prop);
+    },
+  },
+});
+
+// Absolute redirectTo paths — redirects are no longer terminal
+const absoluteRedirectsRule = defineAstRule({
+  id: 'absolute-redirects',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.PropertyAssignment]: (prop, file) => {
+      if (prop.getName() !== 'redirectTo') return;
+      const init = prop.getInitializer();
+      if (!Node.isStringLiteral(init) && !Node.isNoSubstitutionTemplateLiteral(init)) return;
+      if (init.getLiteralText().startsWith('/')) {
+        file.addWarning(`[Angular 17] Router absolute redirects are now non-terminal (processing continues after redirectTo: '${init.getLiteralText()}'). Check that this redirect cannot loop.`, prop);
+      }
+    },
+  },
+});
+
+const rules = defineRules(17, {
+  updatePackages: {
+    id: 'update-packages-v17',
+    kind: 'auto-fix',
+    description: 'Bump Angular, its tooling and ecosystem packages in package.json to the Angular 17 row of the version matrix',
+  },
+  applicationBuilder: {
+    id: 'application-builder',
+    kind: 'auto-fix',
+    description: 'Switch angular.json from the browser builder to the application builder',
+  },
+  defaultProject: {
+    id: 'default-project',
+    kind: 'auto-fix',
+    description: 'Remove the obsolete defaultProject option from angular.json',
+  },
+  buildTarget: {
+    id: 'browser-target-to-build-target',
+    kind: 'auto-fix',
+    description: 'Rename browserTarget to buildTarget in angular.json',
+  },
+  zoneJsImports: {
+    id: 'zone-js-deep-imports',
+    kind: 'auto-fix',
+    description: 'Replace zone.js/dist/* deep imports with their top-level entry points',
+  },
+  ssrPackage: {
+    id: 'nguniversal-to-angular-ssr-package',
+    kind: 'auto-fix',
+    description: 'Replace @nguniversal/express-engine with @angular/ssr in package.json',
+  },
+  routerLinkWithHref: {
+    id: 'router-link-with-href',
+    kind: 'auto-fix',
+    description: 'Rename RouterLinkWithHref imports to RouterLink',
+  },
+  ssrImports: {
+    id: 'nguniversal-to-angular-ssr-imports',
+    kind: 'auto-fix',
+    description: 'Move ngExpressEngine and CommonEngine imports from @nguniversal/express-engine to @angular/ssr',
+  },
+  dominoSetup: {
+    id: 'domino-setup',
+    kind: 'auto-fix',
+    description: 'Remove the domino DOM polyfill from SSR entry files',
+  },
+  canLoadToCanMatch: {
+    id: 'can-load-to-can-match',
+    kind: 'auto-fix',
+    description: 'Migrate CanLoad guards and canLoad route properties to CanMatch',
+  },
+  componentFactoryResolver: {
+    id: componentFactoryResolverRule.id,
+    kind: 'auto-fix',
+    description: 'Remove ComponentFactoryResolver injection and resolveComponentFactory() calls',
+    category: 'manual-fix',
+  },
+  signalMutate: {
+    id: signalMutateRule.id,
+    kind: 'detect',
+    description: 'Flag WritableSignal.mutate() calls (use update())',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  routerPropertyAssignment: {
+    id: routerPropertyAssignmentRule.id,
+    kind: 'detect',
+    description: 'Flag Router property assignments that moved to provideRouter() options',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  setupTestingRouter: {
+    id: 'setup-testing-router',
+    kind: 'auto-fix',
+    description: 'Remove the setupTestingRouter import and flag its usages',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  withNoDomReuse: {
+    id: 'with-no-dom-reuse',
+    kind: 'auto-fix',
+    description: 'Remove the withNoDomReuse import and flag its usages (use ngSkipHydration)',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  entryComponents: {
+    id: 'entry-components-v17',
+    kind: 'detect',
+    description: 'Flag entryComponents left in @NgModule decorators',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  materialLegacyEntryPoints: {
+    id: 'material-legacy-entry-points',
+    kind: 'detect',
+    description: 'Flag imports from @angular/material/legacy-* entry points, removed in Material 17',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  removeStylesOnDestroy: {
+    id: removeStylesOnDestroyRule.id,
+    kind: 'detect',
+    description: 'Note on ViewEncapsulation.None components that their styles are now removed on destroy',
+    category: 'behavior-change',
+  },
+  ngSwitchStrictEquality: {
+    id: 'ng-switch-strict-equality',
+    kind: 'detect',
+    description: 'Note on [ngSwitch] in templates that NgSwitch now compares with ===',
+    category: 'behavior-change',
+  },
+  absoluteRedirects: {
+    id: absoluteRedirectsRule.id,
+    kind: 'detect',
+    description: 'Note on absolute redirectTo paths that redirects are no longer terminal',
+    category: 'behavior-change',
+  },
+});
+
 /**
  * Angular 16 → 17
  *
@@ -40,6 +231,7 @@ import { SyntaxKind, Node } from 'ts-morph';
  * - NgSwitch equality changed from == to ===
  * - Router: absolute redirects are now non-terminal (may cause redirect loops)
  * - Node.js: 18.13.0+ required
+ * - Angular Material: legacy-* (non-MDC) entry points removed
  */
 export const v16ToV17: MigrationStep = {
   from: 16,
@@ -57,219 +249,209 @@ export const v16ToV17: MigrationStep = {
     ctx.logger.step('Angular 16 → 17');
 
     // 1. package.json
-    ctx.logger.info('Updating package versions...');
-    const pkgChanges = updatePackageVersions(ctx, {
-      '@angular/animations':              '^17.3.0',
-      '@angular/cdk':                      '^17.3.0',
-      '@angular/cli':                      '^17.3.0',
-      '@angular/common':                   '^17.3.0',
-      '@angular/compiler':                 '^17.3.0',
-      '@angular/compiler-cli':             '^17.3.0',
-      '@angular/core':                     '^17.3.0',
-      '@angular/elements':                 '^17.3.0',
-      '@angular/forms':                    '^17.3.0',
-      '@angular/language-service':         '^17.3.0',
-      '@angular/material':                 '^17.3.0',
-      '@angular/platform-browser':         '^17.3.0',
-      '@angular/platform-browser-dynamic': '^17.3.0',
-      '@angular/platform-server':          '^17.3.0',
-      '@angular/router':                   '^17.3.0',
-      '@angular/service-worker':           '^17.3.0',
-      '@angular-devkit/build-angular':     '^17.3.0',
-      '@angular-devkit/core':              '^17.3.0',
-      '@angular-devkit/schematics':        '^17.3.0',
-      'typescript':                        '~5.2.0',
-      'zone.js':                           '~0.14.0',
-    });
-    pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...pkgChanges);
+    if (isRuleEnabled(ctx, rules.updatePackages)) {
+      ctx.logger.info('Updating package versions...');
+      const { changes: pkgChanges, warnings: pkgWarnings } = updatePackageVersions(
+        ctx, 17, getRuleOptions<PackageVersionOptions>(ctx, rules.updatePackages).versions
+      );
+      pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      pkgWarnings.forEach(w => ctx.logger.warn(w.message));
+      result.changes.push(...pkgChanges);
+      result.warnings.push(...pkgWarnings.map(w => ({ ...w, rule: rules.updatePackages.id })));
+    }
 
     // 2. angular.json: browser → application builder
-    ctx.logger.info('Migrating angular.json builder...');
-    const builderChanges = migrateBrowserBuilderToApplication(ctx);
-    builderChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...builderChanges);
+    if (isRuleEnabled(ctx, rules.applicationBuilder)) {
+      ctx.logger.info('Migrating angular.json builder...');
+      const builderChanges = migrateBrowserBuilderToApplication(ctx);
+      builderChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...builderChanges);
+    }
 
-    const defaultProjectChanges = removeDefaultProject(ctx);
-    defaultProjectChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...defaultProjectChanges);
+    if (isRuleEnabled(ctx, rules.defaultProject)) {
+      const defaultProjectChanges = removeDefaultProject(ctx);
+      defaultProjectChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...defaultProjectChanges);
+    }
 
     // browserTarget → buildTarget (Angular 17)
-    ctx.logger.info('Renaming browserTarget → buildTarget in angular.json...');
-    const buildTargetChanges = renameBrowserTargetToBuildTarget(ctx);
-    buildTargetChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...buildTargetChanges);
+    if (isRuleEnabled(ctx, rules.buildTarget)) {
+      ctx.logger.info('Renaming browserTarget → buildTarget in angular.json...');
+      const buildTargetChanges = renameBrowserTargetToBuildTarget(ctx);
+      buildTargetChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...buildTargetChanges);
+    }
 
     // 3. zone.js import path fixes
-    ctx.logger.info('Fixing zone.js import paths...');
-    const zoneChanges = fixZoneJsImports(ctx.projectPath, ctx);
-    zoneChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...zoneChanges);
+    if (isRuleEnabled(ctx, rules.zoneJsImports)) {
+      ctx.logger.info('Fixing zone.js import paths...');
+      const zoneChanges = fixZoneJsImports(ctx.projectPath, ctx);
+      zoneChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...zoneChanges);
+    }
 
     // 3a. @nguniversal/express-engine → @angular/ssr (package.json)
-    ctx.logger.info('Replacing @nguniversal/express-engine with @angular/ssr...');
-    const ssrPkgChanges = replacePackageDependency(
-      ctx,
-      '@nguniversal/express-engine',
-      '@angular/ssr',
-      '^17.3.0'
-    );
-    ssrPkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...ssrPkgChanges);
+    if (isRuleEnabled(ctx, rules.ssrPackage)) {
+      ctx.logger.info('Replacing @nguniversal/express-engine with @angular/ssr...');
+      const ssrPkgChanges = replacePackageDependency(
+        ctx,
+        '@nguniversal/express-engine',
+        '@angular/ssr',
+        getPackageVersions(17, ctx.config)['@angular/ssr']
+      );
+      ssrPkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...ssrPkgChanges);
+    }
 
     // 4. TypeScript codemods
     ctx.logger.info('Scanning TypeScript files...');
-    let project;
-    try {
-      project = createTsProject(ctx.projectPath);
-    } catch (e) {
-      result.warnings.push({ file: 'tsconfig.json', message: `Could not load TypeScript project: ${e}` });
-      return result;
-    }
-
-    const sourceFiles = getSourceFiles(project, ctx.projectPath);
+    const sourceFiles = getSourceFiles(ctx.project, ctx.projectPath);
     ctx.logger.info(`Found ${sourceFiles.length} TypeScript files`);
 
     // RouterLinkWithHref → RouterLink
-    ctx.logger.info('Migrating RouterLinkWithHref → RouterLink...');
-    const routerLinkChanges = renameNamedImport(
-      sourceFiles, '@angular/router', 'RouterLinkWithHref', 'RouterLink', ctx
-    );
-    routerLinkChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...routerLinkChanges);
+    if (isRuleEnabled(ctx, rules.routerLinkWithHref)) {
+      ctx.logger.info('Migrating RouterLinkWithHref → RouterLink...');
+      const routerLinkChanges = renameNamedImport(
+        sourceFiles, '@angular/router', 'RouterLinkWithHref', 'RouterLink', ctx
+      );
+      routerLinkChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...routerLinkChanges);
+    }
 
     // @nguniversal/express-engine → @angular/ssr (TypeScript imports)
-    ctx.logger.info('Migrating @nguniversal/express-engine imports → @angular/ssr...');
-    const ngExpressChanges = moveImport(
-      sourceFiles, 'ngExpressEngine', '@nguniversal/express-engine', '@angular/ssr', ctx
-    );
-    ngExpressChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...ngExpressChanges);
+    if (isRuleEnabled(ctx, rules.ssrImports)) {
+      ctx.logger.info('Migrating @nguniversal/express-engine imports → @angular/ssr...');
+      const ngExpressChanges = moveImport(
+        sourceFiles, 'ngExpressEngine', '@nguniversal/express-engine', '@angular/ssr', ctx
+      );
+      ngExpressChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...ngExpressChanges);
 
-    // CommonEngine lives in @angular/ssr/node (Node.js-specific subpath)
-    const commonEngineChanges = moveImport(
-      sourceFiles, 'CommonEngine', '@nguniversal/express-engine', '@angular/ssr/node', ctx
-    );
-    commonEngineChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...commonEngineChanges);
+      // CommonEngine lives in @angular/ssr/node (Node.js-specific subpath)
+      const commonEngineChanges = moveImport(
+        sourceFiles, 'CommonEngine', '@nguniversal/express-engine', '@angular/ssr/node', ctx
+      );
+      commonEngineChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...commonEngineChanges);
+    }
 
     // Remove domino SSR polyfill
-    ctx.logger.info('Removing domino SSR polyfill...');
-    const dominoChanges = removeDominoSetup(sourceFiles, ctx);
-    dominoChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...dominoChanges);
+    if (isRuleEnabled(ctx, rules.dominoSetup)) {
+      ctx.logger.info('Removing domino SSR polyfill...');
+      const dominoChanges = removeDominoSetup(sourceFiles, ctx);
+      dominoChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...dominoChanges);
+    }
 
     // CanLoad → CanMatch
-    ctx.logger.info('Migrating CanLoad → CanMatch...');
-    const canLoadChanges = migrateCanLoadToCanMatch(sourceFiles, ctx);
-    canLoadChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...canLoadChanges);
+    if (isRuleEnabled(ctx, rules.canLoadToCanMatch)) {
+      ctx.logger.info('Migrating CanLoad → CanMatch...');
+      const { changes: canLoadChanges, warnings: canLoadWarnings } = migrateCanLoadToCanMatch(sourceFiles, ctx);
+      canLoadChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      canLoadWarnings.forEach(w => ctx.logger.warn(w.message));
+      result.changes.push(...canLoadChanges);
+      result.warnings.push(...canLoadWarnings.map(w => ({ ...w, rule: rules.canLoadToCanMatch.id })));
+    }
 
-    // ComponentFactory / ComponentFactoryResolver removal
-    ctx.logger.info('Migrating ComponentFactoryResolver...');
-    const { changes: cfrChanges, warnings: cfrWarnings } = migrateComponentFactoryResolver(sourceFiles, ctx);
-    cfrChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    cfrWarnings.forEach(w => ctx.logger.warn(w.message));
-    result.changes.push(...cfrChanges);
-    result.warnings.push(...cfrWarnings);
+    // ComponentFactory / ComponentFactoryResolver removal, plus the signal.mutate(),
+    // Router property and behavior-change detectors — one traversal per file for all
+    ctx.logger.info('Migrating ComponentFactoryResolver, checking for signal.mutate(), Router assignments and redirects...');
+    const { changes: astChanges, warnings: astWarnings } = await runAstRules(
+      sourceFiles,
+      [componentFactoryResolverRule, signalMutateRule, routerPropertyAssignmentRule, removeStylesOnDestroyRule, absoluteRedirectsRule],
+      ctx
+    );
+    astChanges.forEach(c => ctx.logger.change(c.file, c.description));
+    astWarnings.forEach(w => ctx.logger.warn(w.message));
+    result.changes.push(...astChanges);
+    result.warnings.push(...astWarnings);
 
     // Remove remaining ComponentFactory / ComponentFactoryResolver imports
-    for (const sym of ['ComponentFactory', 'ComponentFactoryResolver'] as const) {
-      const { changes } = removeObsoleteImport(sourceFiles, '@angular/core', sym, ctx);
-      changes.forEach(c => ctx.logger.change(c.file, c.description));
-      result.changes.push(...changes);
+    if (isRuleEnabled(ctx, rules.componentFactoryResolver)) {
+      for (const sym of ['ComponentFactory', 'ComponentFactoryResolver'] as const) {
+        const { changes } = removeObsoleteImport(sourceFiles, '@angular/core', sym, ctx);
+        changes.forEach(c => ctx.logger.change(c.file, c.description));
+        result.changes.push(...changes);
+      }
     }
 
     // setupTestingRouter() — removed
-    const { changes: strChanges, warnings: strWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/router/testing', 'setupTestingRouter', ctx
-    );
-    strChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...strChanges);
-    result.warnings.push(...strWarnings.map(w => ({
-      ...w,
-      message: `setupTestingRouter() removed. Use RouterModule.forRoot([]) or provideRouter([]) in TestBed.configureTestingModule instead.`,
-    })));
+    if (isRuleEnabled(ctx, rules.setupTestingRouter)) {
+      const { changes: strChanges, warnings: strWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/router/testing', 'setupTestingRouter', ctx
+      );
+      strChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...strChanges);
+      result.warnings.push(...strWarnings.map(w => ({
+        ...w,
+        message: `setupTestingRouter() removed. Use RouterModule.forRoot([]) or provideRouter([]) in TestBed.configureTestingModule instead.`,
+        rule: rules.setupTestingRouter.id,
+      })));
+    }
 
     // withNoDomReuse() — removed
-    const { changes: noDomChanges, warnings: noDomWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/platform-browser', 'withNoDomReuse', ctx
-    );
-    noDomChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...noDomChanges);
-    result.warnings.push(...noDomWarnings.map(w => ({
-      ...w,
-      message: `withNoDomReuse() removed. Use the ngSkipHydration attribute on the <app-root> tag instead.`,
-    })));
+    if (isRuleEnabled(ctx, rules.withNoDomReuse)) {
+      const { changes: noDomChanges, warnings: noDomWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/platform-browser', 'withNoDomReuse', ctx
+      );
+      noDomChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...noDomChanges);
+      result.warnings.push(...noDomWarnings.map(w => ({
+        ...w,
+        message: `withNoDomReuse() removed. Use the ngSkipHydration attribute on the <app-root> tag instead.`,
+        rule: rules.withNoDomReuse.id,
+      })));
+    }
 
-    // Detect WritableSignal.mutate() usage
-    ctx.logger.info('Checking for signal.mutate() usage...');
-    for (const sf of sourceFiles) {
-      sf.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
-        const expr = call.getExpression();
-        if (!Node.isPropertyAccessExpression(expr)) return;
-        if (expr.getName() === 'mutate') {
-          result.warnings.push({
-            file: sf.getFilePath(),
-            message: `signal.mutate() removed in Angular 17. Replace with signal.update(val => { ...val, changedProp }). Found: ${call.getText().slice(0, 80)}`,
+    // entryComponents warning (if missed in v15→v16)
+    if (isRuleEnabled(ctx, rules.entryComponents)) {
+      for (const sf of sourceFiles) {
+        sf.getClasses().forEach(cls => {
+          cls.getDecorators().forEach(dec => {
+            if (dec.getName() !== 'NgModule') return;
+            const args = dec.getArguments();
+            if (args.length > 0 && args[0].getText().includes('entryComponents')) {
+              const prop = Node.isObjectLiteralExpression(args[0]) ? args[0].getProperty('entryComponents') : undefined;
+              result.warnings.push({
+                file: sf.getFilePath(),
+                message: `${cls.getName()}: entryComponents must be removed before Angular 17.`,
+                ...nodeLocation(prop ?? dec),
+                rule: rules.entryComponents.id,
+              });
+            }
           });
-          ctx.logger.warn(`${sf.getBaseName()}: .mutate() call found — replace with .update()`);
-        }
-      });
+        });
+      }
     }
 
-    // Detect direct Router property assignments (now must go through provideRouter)
-    const movedRouterProps = [
-      'urlHandlingStrategy',
-      'canceledNavigationResolution',
-      'paramsInheritanceStrategy',
-      'titleStrategy',
-      'urlUpdateStrategy',
-      'malformedUriErrorHandler',
-    ];
-    for (const sf of sourceFiles) {
-      sf.getDescendantsOfKind(SyntaxKind.BinaryExpression).forEach(bin => {
-        const left = bin.getLeft();
-        if (!Node.isPropertyAccessExpression(left)) return;
-        if (movedRouterProps.includes(left.getName())) {
+    // legacy-* Material entry points (MatLegacy* aliases from the 14 → 15 step) are gone
+    if (isRuleEnabled(ctx, rules.materialLegacyEntryPoints)) {
+      for (const sf of sourceFiles) {
+        for (const imp of sf.getImportDeclarations()) {
+          const specifier = imp.getModuleSpecifierValue();
+          if (!specifier.startsWith('@angular/material/legacy-')) continue;
           result.warnings.push({
             file: sf.getFilePath(),
-            message: `router.${left.getName()} = ... is no longer supported in Angular 17. Configure via provideRouter([routes], with${left.getName().charAt(0).toUpperCase() + left.getName().slice(1)}(...)) or RouterModule.forRoot config.`,
+            message: `'${specifier}' is removed in Angular Material 17. Run ng generate @angular/material:mdc-migration with Material 16 first, or import the MDC components from '${specifier.replace('/legacy-', '/')}'.`,
+            ...nodeLocation(imp),
+            rule: rules.materialLegacyEntryPoints.id,
           });
         }
-      });
+      }
     }
 
-    // entryComponents warning (if missed in v15→v16)
-    for (const sf of sourceFiles) {
-      sf.getClasses().forEach(cls => {
-        cls.getDecorators().forEach(dec => {
-          if (dec.getName() !== 'NgModule') return;
-          const args = dec.getArguments();
-          if (args.length > 0 && args[0].getText().includes('entryComponents')) {
-            result.warnings.push({
-              file: sf.getFilePath(),
-              message: `${cls.getName()}: entryComponents must be removed before Angular 17.`,
-            });
-          }
+    // NgSwitch: only templates that use it
+    if (isRuleEnabled(ctx, rules.ngSwitchStrictEquality)) {
+      for (const { resource, ...location } of findInResources(getComponentTemplates(sourceFiles, ctx), /\[ngSwitch\]/g)) {
+        result.warnings.push({
+          file: resource.file,
+          message: '[Angular 17] NgSwitch now uses strict equality (===) instead of loose equality (==). Review the cases of this switch that relied on type coercion.',
+          ...location,
+          rule: rules.ngSwitchStrictEquality.id,
         });
-      });
+      }
     }
 
-    // Behavior change warnings
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 17] REMOVE_STYLES_ON_COMPONENT_DESTROY now defaults to true. Component styles are removed on destroy. If your app relies on styles persisting, add { provide: REMOVE_STYLES_ON_COMPONENT_DESTROY, useValue: false } to providers.',
-    });
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 17] NgSwitch now uses strict equality (===) instead of loose equality (==). Review switch cases that relied on type coercion.',
-    });
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 17] Router absolute redirects are now non-terminal (processing continues after redirect). Check route configs for potential infinite redirect loops.',
-    });
-
     return result;
   },
 };
@@ -1,13 +1,209 @@
 import { MigrationStep, MigrationContext, MigrationResult } from '../types';
-import { updatePackageVersions } from '../utils/pkg';
+import { PackageVersionOptions, updatePackageVersions } from '../utils/pkg';
 import {
-  createTsProject,
   getSourceFiles,
   removeObsoleteImport,
   migrateAsyncToWaitForAsync,
 } from '../utils/codemods';
+import { defineAstRule, runAstRules } from '../utils/rule-engine';
+import { defineRules, getRuleOptions, isRuleEnabled, isRuleSelected } from '../utils/rules';
+import { nodeLocation } from '../utils/location';
+import { findInResources, getComponentTemplates } from '../utils/templates';
 import { SyntaxKind, Node } from 'ts-morph';
 
+// AnimationDriver.matchesElement — only warn if it is actually used
+const matchesElementRule = defineAstRule({
+  id: 'animation-driver-matches-element',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.PropertyAccessExpression]: (pa, file) => {
+      if (pa.getName() === 'matchesElement') {
+        file.addWarning(`AnimationDriver.matchesElement() removed in Angular 18. Remove this usage.`, pa);
+      }
+    },
+  },
+});
+
+// Testability methods removed
+const removedTestabilityMethods = [
+  'increasePendingRequestCount',
+  'decreasePendingRequestCount',
+  'getPendingRequestCount',
+];
+
+const testabilityMethodsRule = defineAstRule({
+  id: 'testability-pending-requests',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.PropertyAccessExpression]: (pa, file) => {
+      if (removedTestabilityMethods.includes(pa.getName())) {
+        file.addWarning(`Testability.${pa.getName()}() removed in Angular 18. Remove this call — it has no replacement.`, pa);
+      }
+    },
+  },
+});
+
+// SwUpdate.available / SwUpdate.activated — removed (already had heuristic, keep it)
+const swUpdateObservablesRule = defineAstRule({
+  id: 'sw-update-available-activated',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.PropertyAccessExpression]: (pa, file) => {
+      const name = pa.getName();
+      if (name !== 'available' && name !== 'activated') return;
+      const objText = pa.getExpression().getText().toLowerCase();
+      if (objText.includes('update') || objText.includes('swupdate')) {
+        file.addWarning(`Possible SwUpdate.${name} usage. This observable was removed in Angular 18 — use swUpdate.versionUpdates observable instead.`, pa);
+      }
+    },
+  },
+});
+
+// provideClientHydration() turns the HTTP transfer cache on
+const httpTransferCacheRule = defineAstRule({
+  id: 'http-transfer-cache-auth-headers',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.CallExpression]: (call, file) => {
+      if (call.getExpression().getText() !== 'provideClientHydration') return;
+      file.addWarning('[Angular 18] withHttpTransferCache now excludes requests with Authorization headers by default. To include them: provideClientHydration(withHttpTransferCache({ includeRequestsWithAuthHeaders: true }))', call);
+    },
+  },
+});
+
+// markForCheck()/detectChanges() from hooks that run on every check can loop forever
+const everyCheckHooks = ['ngDoCheck', 'ngAfterViewChecked', 'ngAfterContentChecked'];
+
+const infiniteChangeDetectionRule = defineAstRule({
+  id: 'infinite-change-detection',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.CallExpression]: (call, file) => {
+      const expr = call.getExpression();
+      if (!Node.isPropertyAccessExpression(expr)) return;
+      if (expr.getName() !== 'markForCheck' && expr.getName() !== 'detectChanges') return;
+      const hook = call.getFirstAncestorByKind(SyntaxKind.MethodDeclaration)?.getName();
+      if (hook && everyCheckHooks.includes(hook)) {
+        file.addWarning(`[Angular 18] Infinite change detection loops now throw NG0103 instead of silently running. ${expr.getName()}() in ${hook}() runs on every check — make sure it is conditional.`, call);
+      }
+    },
+  },
+});
+
+// ComponentFixture auto detection — OnPush and whenStable() behave differently
+const fixtureAutoDetectMessage = '[Angular 18] With ComponentFixture auto detection, OnPush components are only refreshed when marked dirty, and whenStable() now also waits for pending router and HTTP tasks. Check tests of OnPush components and tests that may now time out.';
+
+const fixtureAutoDetectRule = defineAstRule({
+  id: 'fixture-auto-detect',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.CallExpression]: (call, file) => {
+      const expr = call.getExpression();
+      if (Node.isPropertyAccessExpression(expr) && expr.getName() === 'autoDetectChanges') {
+        file.addWarning(fixtureAutoDetectMessage, call);
+      }
+    },
+    [SyntaxKind.PropertyAssignment]: (prop, file) => {
+      if (prop.getName() === 'provide' && prop.getInitializer()?.getText() === 'ComponentFixtureAutoDetect') {
+        file.addWarning(fixtureAutoDetectMessage, prop);
+      }
+    },
+  },
+});
+
+const rules = defineRules(18, {
+  updatePackages: {
+    id: 'update-packages-v18',
+    kind: 'auto-fix',
+    description: 'Bump Angular, its tooling and ecosystem packages in package.json to the Angular 18 row of the version matrix',
+  },
+  asyncToWaitForAsync: {
+    id: 'async-to-wait-for-async',
+    kind: 'auto-fix',
+    description: 'Replace async() from @angular/core/testing with waitForAsync()',
+  },
+  platformWorkerApis: {
+    id: 'platform-worker-apis',
+    kind: 'auto-fix',
+    description: 'Remove isPlatformWorkerUi / isPlatformWorkerApp imports and flag their usages',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  platformDynamicServer: {
+    id: 'platform-dynamic-server',
+    kind: 'auto-fix',
+    description: 'Remove the platformDynamicServer import and flag its usages (use platformServer())',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  resourceCacheProvider: {
+    id: 'resource-cache-provider',
+    kind: 'auto-fix',
+    description: 'Remove the RESOURCE_CACHE_PROVIDER import',
+  },
+  animationDriverImport: {
+    id: 'animation-driver-import',
+    kind: 'auto-fix',
+    description: 'Remove the AnimationDriver import from @angular/animations/browser',
+  },
+  matchesElement: {
+    id: matchesElementRule.id,
+    kind: 'detect',
+    description: 'Flag AnimationDriver.matchesElement() calls',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  testabilityMethods: {
+    id: testabilityMethodsRule.id,
+    kind: 'detect',
+    description: 'Flag the removed Testability pending-request methods',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  swUpdateObservables: {
+    id: swUpdateObservablesRule.id,
+    kind: 'detect',
+    description: 'Flag SwUpdate.available / SwUpdate.activated (use versionUpdates)',
+    category: 'manual-fix',
+  },
+  httpClientModule: {
+    id: 'http-client-module-deprecation',
+    kind: 'detect',
+    description: 'Flag HttpClientModule, HttpClientXsrfModule and HttpClientJsonpModule (use provideHttpClient())',
+    category: 'deprecation',
+  },
+  httpTransferCacheAuthHeaders: {
+    id: httpTransferCacheRule.id,
+    kind: 'detect',
+    description: 'Note on provideClientHydration() that the HTTP transfer cache now skips requests with auth headers',
+    category: 'behavior-change',
+  },
+  infiniteChangeDetection: {
+    id: infiniteChangeDetectionRule.id,
+    kind: 'detect',
+    description: 'Note on markForCheck()/detectChanges() in ngDoCheck and *Checked hooks that change detection loops now throw NG0103',
+    category: 'behavior-change',
+  },
+  twoWayBindingWritable: {
+    id: 'two-way-binding-writable',
+    kind: 'detect',
+    description: 'Note on [(...)] bindings in templates that two-way bindings now require writable expressions',
+    category: 'behavior-change',
+  },
+  routerOutletProviders: {
+    id: 'router-outlet-providers',
+    kind: 'detect',
+    description: 'Note on components with providers and a <router-outlet> that routed components no longer inherit them',
+    category: 'behavior-change',
+  },
+  fixtureAutoDetect: {
+    id: fixtureAutoDetectRule.id,
+    kind: 'detect',
+    description: 'Note on ComponentFixture auto detection that OnPush and whenStable() behave differently',
+    category: 'behavior-change',
+  },
+});
+
 /**
  * Angular 17 → 18
  *
@@ -51,164 +247,134 @@ export const v17ToV18: MigrationStep = {
     ctx.logger.step('Angular 17 → 18');
 
     // 1. package.json
-    ctx.logger.info('Updating package versions...');
-    const pkgChanges = updatePackageVersions(ctx, {
-      '@angular/animations':              '^18.2.0',
-      '@angular/cdk':                      '^18.2.0',
-      '@angular/cli':                      '^18.2.0',
-      '@angular/common':                   '^18.2.0',
-      '@angular/compiler':                 '^18.2.0',
-      '@angular/compiler-cli':             '^18.2.0',
-      '@angular/core':                     '^18.2.0',
-      '@angular/elements':                 '^18.2.0',
-      '@angular/forms':                    '^18.2.0',
-      '@angular/language-service':         '^18.2.0',
-      '@angular/material':                 '^18.2.0',
-      '@angular/platform-browser':         '^18.2.0',
-      '@angular/platform-browser-dynamic': '^18.2.0',
-      '@angular/platform-server':          '^18.2.0',
-      '@angular/router':                   '^18.2.0',
-      '@angular/service-worker':           '^18.2.0',
-      '@angular-devkit/build-angular':     '^18.2.0',
-      '@angular-devkit/core':              '^18.2.0',
-      '@angular-devkit/schematics':        '^18.2.0',
-      'typescript':                        '~5.4.0',
-    });
-    pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...pkgChanges);
+    if (isRuleEnabled(ctx, rules.updatePackages)) {
+      ctx.logger.info('Updating package versions...');
+      const { changes: pkgChanges, warnings: pkgWarnings } = updatePackageVersions(
+        ctx, 18, getRuleOptions<PackageVersionOptions>(ctx, rules.updatePackages).versions
+      );
+      pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      pkgWarnings.forEach(w => ctx.logger.warn(w.message));
+      result.changes.push(...pkgChanges);
+      result.warnings.push(...pkgWarnings.map(w => ({ ...w, rule: rules.updatePackages.id })));
+    }
 
     // 2. TypeScript codemods
     ctx.logger.info('Scanning TypeScript files...');
-    let project;
-    try {
-      project = createTsProject(ctx.projectPath);
-    } catch (e) {
-      result.warnings.push({ file: 'tsconfig.json', message: `Could not load TypeScript project: ${e}` });
-      return result;
-    }
-
-    const sourceFiles = getSourceFiles(project, ctx.projectPath);
+    const sourceFiles = getSourceFiles(ctx.project, ctx.projectPath);
     ctx.logger.info(`Found ${sourceFiles.length} TypeScript files`);
 
     // async() → waitForAsync()
-    ctx.logger.info('Migrating async() → waitForAsync()...');
-    const asyncChanges = migrateAsyncToWaitForAsync(sourceFiles, ctx);
-    asyncChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...asyncChanges);
+    if (isRuleEnabled(ctx, rules.asyncToWaitForAsync)) {
+      ctx.logger.info('Migrating async() → waitForAsync()...');
+      const asyncChanges = migrateAsyncToWaitForAsync(sourceFiles, ctx);
+      asyncChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...asyncChanges);
+    }
 
     // isPlatformWorkerUi / isPlatformWorkerApp — removed (WebWorker platform discontinued)
-    for (const sym of ['isPlatformWorkerUi', 'isPlatformWorkerApp'] as const) {
-      const { changes, warnings } = removeObsoleteImport(sourceFiles, '@angular/common', sym, ctx);
-      changes.forEach(c => ctx.logger.change(c.file, c.description));
-      result.changes.push(...changes);
-      result.warnings.push(...warnings.map(w => ({
-        ...w,
-        message: `${sym}() removed in Angular 18 — the Angular WebWorker platform is discontinued. Remove usages.`,
-      })));
+    if (isRuleEnabled(ctx, rules.platformWorkerApis)) {
+      for (const sym of ['isPlatformWorkerUi', 'isPlatformWorkerApp'] as const) {
+        const { changes, warnings } = removeObsoleteImport(sourceFiles, '@angular/common', sym, ctx);
+        changes.forEach(c => ctx.logger.change(c.file, c.description));
+        result.changes.push(...changes);
+        result.warnings.push(...warnings.map(w => ({
+          ...w,
+          message: `${sym}() removed in Angular 18 — the Angular WebWorker platform is discontinued. Remove usages.`,
+          rule: rules.platformWorkerApis.id,
+        })));
+      }
     }
 
     // platformDynamicServer — removed
-    const { changes: pdsChanges, warnings: pdsWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/platform-server', 'platformDynamicServer', ctx
-    );
-    pdsChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...pdsChanges);
-    result.warnings.push(...pdsWarnings.map(w => ({
-      ...w,
-      message: `platformDynamicServer removed. Add import '@angular/compiler' before bootstrapping and use platformServer() instead.`,
-    })));
+    if (isRuleEnabled(ctx, rules.platformDynamicServer)) {
+      const { changes: pdsChanges, warnings: pdsWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/platform-server', 'platformDynamicServer', ctx
+      );
+      pdsChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...pdsChanges);
+      result.warnings.push(...pdsWarnings.map(w => ({
+        ...w,
+        message: `platformDynamicServer removed. Add import '@angular/compiler' before bootstrapping and use platformServer() instead.`,
+        rule: rules.platformDynamicServer.id,
+      })));
+    }
 
     // RESOURCE_CACHE_PROVIDER — removed (unused API)
-    const { changes: rcpChanges } = removeObsoleteImport(
-      sourceFiles, '@angular/platform-browser-dynamic', 'RESOURCE_CACHE_PROVIDER', ctx
-    );
-    rcpChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...rcpChanges);
-
-    // AnimationDriver.matchesElement — removed (unused)
-    const { changes: admChanges, warnings: admWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/animations/browser', 'AnimationDriver', ctx
-    );
-    // Only warn if it was actually used for matchesElement
-    for (const sf of sourceFiles) {
-      sf.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression).forEach(pa => {
-        if (pa.getName() === 'matchesElement') {
-          result.warnings.push({
-            file: sf.getFilePath(),
-            message: `AnimationDriver.matchesElement() removed in Angular 18. Remove this usage.`,
-          });
-        }
-      });
+    if (isRuleEnabled(ctx, rules.resourceCacheProvider)) {
+      const { changes: rcpChanges } = removeObsoleteImport(
+        sourceFiles, '@angular/platform-browser-dynamic', 'RESOURCE_CACHE_PROVIDER', ctx
+      );
+      rcpChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...rcpChanges);
     }
 
-    // Testability methods removed
-    const removedTestabilityMethods = [
-      'increasePendingRequestCount',
-      'decreasePendingRequestCount',
-      'getPendingRequestCount',
-    ];
-    for (const sf of sourceFiles) {
-      sf.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression).forEach(pa => {
-        if (removedTestabilityMethods.includes(pa.getName())) {
-          result.warnings.push({
-            file: sf.getFilePath(),
-            message: `Testability.${pa.getName()}() removed in Angular 18. Remove this call — it has no replacement.`,
-          });
-          ctx.logger.warn(`${sf.getBaseName()}: Testability.${pa.getName()}() removed`);
-        }
-      });
+    // AnimationDriver.matchesElement — removed (unused)
+    if (isRuleEnabled(ctx, rules.animationDriverImport)) {
+      const { changes: admChanges, warnings: admWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/animations/browser', 'AnimationDriver', ctx
+      );
     }
 
-    // SwUpdate.available / SwUpdate.activated — removed (already had heuristic, keep it)
-    for (const sf of sourceFiles) {
-      sf.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression).forEach(pa => {
-        const name = pa.getName();
-        if (name !== 'available' && name !== 'activated') return;
-        const objText = pa.getExpression().getText().toLowerCase();
-        if (objText.includes('update') || objText.includes('swupdate')) {
-          result.warnings.push({
-            file: sf.getFilePath(),
-            message: `Possible SwUpdate.${name} usage. This observable was removed in Angular 18 — use swUpdate.versionUpdates observable instead.`,
-          });
-        }
-      });
-    }
+    // matchesElement / Testability / SwUpdate and behavior-change detectors — one traversal per file
+    ctx.logger.info('Checking for removed AnimationDriver, Testability and SwUpdate APIs...');
+    const { warnings: astWarnings } = await runAstRules(
+      sourceFiles,
+      [
+        matchesElementRule, testabilityMethodsRule, swUpdateObservablesRule,
+        httpTransferCacheRule, infiniteChangeDetectionRule, fixtureAutoDetectRule,
+      ],
+      ctx
+    );
+    astWarnings.forEach(w => ctx.logger.warn(w.message));
+    result.warnings.push(...astWarnings);
 
     // Detect HttpClientModule deprecation
-    const deprecatedHttpModules = ['HttpClientModule', 'HttpClientXsrfModule', 'HttpClientJsonpModule'];
-    for (const sf of sourceFiles) {
-      for (const imp of sf.getImportDeclarations()) {
-        if (imp.getModuleSpecifierValue() !== '@angular/common/http') continue;
-        const found = imp.getNamedImports()
-          .filter(ni => deprecatedHttpModules.includes(ni.getName()))
-          .map(ni => ni.getName());
-        if (found.length > 0) {
-          result.warnings.push({
-            file: sf.getFilePath(),
-            message: `${found.join(', ')} deprecated in Angular 18. Migrate to provideHttpClient() in your app config/bootstrap. See: https://angular.dev/guide/http/setup`,
-          });
-          ctx.logger.warn(`${sf.getBaseName()}: ${found.join(', ')} deprecated`);
+    if (isRuleEnabled(ctx, rules.httpClientModule)) {
+      const deprecatedHttpModules = ['HttpClientModule', 'HttpClientXsrfModule', 'HttpClientJsonpModule'];
+      for (const sf of sourceFiles) {
+        for (const imp of sf.getImportDeclarations()) {
+          if (imp.getModuleSpecifierValue() !== '@angular/common/http') continue;
+          const specifiers = imp.getNamedImports().filter(ni => deprecatedHttpModules.includes(ni.getName()));
+          const found = specifiers.map(ni => ni.getName());
+          if (found.length > 0) {
+            result.warnings.push({
+              file: sf.getFilePath(),
+              message: `${found.join(', ')} deprecated in Angular 18. Migrate to provideHttpClient() in your app config/bootstrap. See: https://angular.dev/guide/http/setup`,
+              ...nodeLocation(specifiers[0]),
+              rule: rules.httpClientModule.id,
+              docsUrl: 'https://angular.dev/guide/http/setup',
+            });
+            ctx.logger.warn(`${sf.getBaseName()}: ${found.join(', ')} deprecated`);
+          }
         }
       }
     }
 
-    // Behavior change warnings
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 18] withHttpTransferCache now excludes requests with Authorization headers by default. To include them: provideClientHydration(withHttpTransferCache({ includeRequestsWithAuthHeaders: true }))',
-    });
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 18] Infinite change detection loops now throw NG0103 error instead of silently running. Check for components that call markForCheck() unconditionally.',
-    });
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 18] Two-way bindings ([(ngModel)], [(value)]) now require writable expressions. Check banana-in-a-box bindings on computed/readonly properties.',
-    });
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 18] Router: component providers no longer come from RouterOutlet — only from the route config. If you rely on outlet providers, add them to the route directly.',
-    });
+    // Template-based behavior changes
+    const templates = isRuleSelected(ctx, rules.twoWayBindingWritable) || isRuleSelected(ctx, rules.routerOutletProviders)
+      ? getComponentTemplates(sourceFiles, ctx)
+      : [];
+    if (isRuleEnabled(ctx, rules.twoWayBindingWritable)) {
+      for (const { resource, ...location } of findInResources(templates, /\[\([\w.-]+\)\]/g)) {
+        result.warnings.push({
+          file: resource.file,
+          message: '[Angular 18] Two-way bindings now require writable expressions. Make sure this binding does not target a computed or readonly property.',
+          ...location,
+          rule: rules.twoWayBindingWritable.id,
+        });
+      }
+    }
+    if (isRuleEnabled(ctx, rules.routerOutletProviders)) {
+      const withProviders = templates.filter(t => t.metadata.getProperty('providers') || t.metadata.getProperty('viewProviders'));
+      for (const { resource, ...location } of findInResources(withProviders, /<router-outlet\b/g)) {
+        result.warnings.push({
+          file: resource.file,
+          message: '[Angular 18] Router: routed components no longer get providers from the component that hosts the RouterOutlet — only from the route config. If the components routed into this outlet rely on its providers, add them to the routes.',
+          ...location,
+          rule: rules.routerOutletProviders.id,
+        });
+      }
+    }
 
     return result;
   },
@@ -1,15 +1,151 @@
 import { MigrationStep, MigrationContext, MigrationResult } from '../types';
-import { updatePackageVersions } from '../utils/pkg';
+import { PackageVersionOptions, updatePackageVersions } from '../utils/pkg';
 import {
-  createTsProject,
   getSourceFiles,
   renameNamedImport,
   removeObsoleteImport,
-  removeBrowserModuleWithServerTransition,
+  browserModuleWithServerTransitionRule,
   addStandaloneFalse,
 } from '../utils/codemods';
+import { defineAstRule, runAstRules } from '../utils/rule-engine';
+import { defineRules, getRuleOptions, isRuleEnabled, isRuleSelected } from '../utils/rules';
+import { nodeLocation } from '../utils/location';
+import { findInResources, getComponentTemplates } from '../utils/templates';
 import { SyntaxKind, Node } from 'ts-morph';
 
+// KeyValueDiffers.factories — only warn if .factories is actually accessed
+const keyValueDiffersFactoriesRule = defineAstRule({
+  id: 'key-value-differs-factories',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.PropertyAccessExpression]: (pa, file) => {
+      if (pa.getName() !== 'factories') return;
+      const objText = pa.getExpression().getText();
+      if (objText.toLowerCase().includes('differ')) {
+        file.addWarning(`KeyValueDiffers.factories removed in Angular 19. Use KeyValueDiffer directly via DI.`, pa);
+      }
+    },
+  },
+});
+
+// Router.errorHandler property — removed
+const routerErrorHandlerRule = defineAstRule({
+  id: 'router-error-handler',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.BinaryExpression]: (bin, file) => {
+      const left = bin.getLeft();
+      if (!Node.isPropertyAccessExpression(left)) return;
+      if (left.getName() !== 'errorHandler') return;
+      const objType = left.getExpression().getText();
+      if (objType.toLowerCase().includes('router')) {
+        file.addWarning(`router.errorHandler = ... removed in Angular 19. Use withNavigationErrorHandler((e) => ...) in provideRouter() or RouterModule.forRoot(routes, { errorHandler: ... }) instead.`, bin);
+      }
+    },
+  },
+});
+
+// effect() calls — effects now run as part of change detection
+const effectsTimingRule = defineAstRule({
+  id: 'effects-timing',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.CallExpression]: (call, file) => {
+      if (call.getExpression().getText() !== 'effect') return;
+      file.addWarning('[Angular 19] Signal effects now run during change detection (not as microtasks). Check that this effect does not depend on running after the view was updated.', call);
+    },
+  },
+});
+
+// Specs that provide an ErrorHandler expect errors to be handled, not rethrown
+const applicationTickRethrowRule = defineAstRule({
+  id: 'application-tick-rethrow',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.PropertyAssignment]: (prop, file) => {
+      if (!file.sourceFile.getBaseName().endsWith('.spec.ts')) return;
+      if (prop.getName() !== 'provide' || prop.getInitializer()?.getText() !== 'ErrorHandler') return;
+      file.addWarning('[Angular 19] ApplicationRef.tick() errors in TestBed are now rethrown instead of only reaching the ErrorHandler. Wrap expected-to-throw scenarios with expect(() => fixture.detectChanges()).toThrow(), or set rethrowApplicationErrors: false in TestBed.', prop);
+    },
+  },
+});
+
+const rules = defineRules(19, {
+  updatePackages: {
+    id: 'update-packages-v19',
+    kind: 'auto-fix',
+    description: 'Bump Angular, its tooling and ecosystem packages in package.json to the Angular 19 row of the version matrix',
+  },
+  pendingTasks: {
+    id: 'pending-tasks-rename',
+    kind: 'auto-fix',
+    description: 'Rename ExperimentalPendingTasks imports to PendingTasks',
+  },
+  keyValueDiffersImport: {
+    id: 'key-value-differs-import',
+    kind: 'auto-fix',
+    description: 'Remove the KeyValueDiffers import from @angular/core',
+  },
+  browserModuleWithServerTransition: {
+    id: browserModuleWithServerTransitionRule.id,
+    kind: 'auto-fix',
+    description: 'Replace BrowserModule.withServerTransition() with BrowserModule',
+    category: 'behavior-change',
+  },
+  keyValueDiffersFactories: {
+    id: keyValueDiffersFactoriesRule.id,
+    kind: 'detect',
+    description: 'Flag KeyValueDiffers.factories accesses',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  routerErrorHandler: {
+    id: routerErrorHandlerRule.id,
+    kind: 'detect',
+    description: 'Flag router.errorHandler assignments (use withNavigationErrorHandler())',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  standaloneFalse: {
+    id: 'standalone-false',
+    kind: 'auto-fix',
+    description: 'Add standalone: false to components, directives and pipes declared in NgModules',
+    category: 'behavior-change',
+    versionDependent: true,
+  },
+  legacyMaterialModules: {
+    id: 'legacy-material-modules',
+    kind: 'detect',
+    description: 'Flag MatLegacy* Angular Material modules',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  effectsTiming: {
+    id: effectsTimingRule.id,
+    kind: 'detect',
+    description: 'Note on effect() calls that effects now run during change detection',
+    category: 'behavior-change',
+  },
+  routerLinkNull: {
+    id: 'router-link-null',
+    kind: 'detect',
+    description: 'Note on [routerLink] bindings that a null value now removes the href attribute',
+    category: 'behavior-change',
+  },
+  templateThisReads: {
+    id: 'template-this-reads',
+    kind: 'detect',
+    description: 'Note on this.foo in templates that it no longer reads template variables',
+    category: 'behavior-change',
+  },
+  applicationTickRethrow: {
+    id: applicationTickRethrowRule.id,
+    kind: 'detect',
+    description: 'Note on specs that provide an ErrorHandler that ApplicationRef.tick() errors are rethrown in TestBed',
+    category: 'behavior-change',
+  },
+});
+
 /**
  * Angular 18 → 19
  *
@@ -52,157 +188,131 @@ export const v18ToV19: MigrationStep = {
     ctx.logger.step('Angular 18 → 19');
 
     // 1. package.json
-    ctx.logger.info('Updating package versions...');
-    const pkgChanges = updatePackageVersions(ctx, {
-      '@angular/animations':              '^19.2.0',
-      '@angular/cdk':                      '^19.2.0',
-      '@angular/cli':                      '^19.2.0',
-      '@angular/common':                   '^19.2.0',
-      '@angular/compiler':                 '^19.2.0',
-      '@angular/compiler-cli':             '^19.2.0',
-      '@angular/core':                     '^19.2.0',
-      '@angular/elements':                 '^19.2.0',
-      '@angular/forms':                    '^19.2.0',
-      '@angular/language-service':         '^19.2.0',
-      '@angular/material':                 '^19.2.0',
-      '@angular/platform-browser':         '^19.2.0',
-      '@angular/platform-browser-dynamic': '^19.2.0',
-      '@angular/platform-server':          '^19.2.0',
-      '@angular/router':                   '^19.2.0',
-      '@angular/service-worker':           '^19.2.0',
-      '@angular-devkit/build-angular':     '^19.2.0',
-      '@angular-devkit/core':              '^19.2.0',
-      '@angular-devkit/schematics':        '^19.2.0',
-      'typescript':                        '~5.6.0',
-    });
-    pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...pkgChanges);
+    if (isRuleEnabled(ctx, rules.updatePackages)) {
+      ctx.logger.info('Updating package versions...');
+      const { changes: pkgChanges, warnings: pkgWarnings } = updatePackageVersions(
+        ctx, 19, getRuleOptions<PackageVersionOptions>(ctx, rules.updatePackages).versions
+      );
+      pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      pkgWarnings.forEach(w => ctx.logger.warn(w.message));
+      result.changes.push(...pkgChanges);
+      result.warnings.push(...pkgWarnings.map(w => ({ ...w, rule: rules.updatePackages.id })));
+    }
 
     // 2. TypeScript codemods
     ctx.logger.info('Scanning TypeScript files...');
-    let project;
-    try {
-      project = createTsProject(ctx.projectPath);
-    } catch (e) {
-      result.warnings.push({ file: 'tsconfig.json', message: `Could not load TypeScript project: ${e}` });
-      return result;
-    }
-
-    const sourceFiles = getSourceFiles(project, ctx.projectPath);
+    const sourceFiles = getSourceFiles(ctx.project, ctx.projectPath);
     ctx.logger.info(`Found ${sourceFiles.length} TypeScript files`);
 
     // ExperimentalPendingTasks → PendingTasks
-    ctx.logger.info('Migrating ExperimentalPendingTasks → PendingTasks...');
-    const pendingTasksChanges = renameNamedImport(
-      sourceFiles, '@angular/core', 'ExperimentalPendingTasks', 'PendingTasks', ctx
-    );
-    pendingTasksChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...pendingTasksChanges);
-
-    // BrowserModule.withServerTransition() → BrowserModule (removed in v19)
-    ctx.logger.info('Removing BrowserModule.withServerTransition()...');
-    const serverTransitionChanges = removeBrowserModuleWithServerTransition(sourceFiles, ctx);
-    serverTransitionChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...serverTransitionChanges);
-    if (serverTransitionChanges.length > 0) {
-      result.warnings.push({
-        file: 'angular.json',
-        message: `BrowserModule.withServerTransition() removed. Replaced with BrowserModule. If you need a stable app ID for SSR, add: { provide: APP_ID, useValue: 'my-app' } to providers.`,
-      });
+    if (isRuleEnabled(ctx, rules.pendingTasks)) {
+      ctx.logger.info('Migrating ExperimentalPendingTasks → PendingTasks...');
+      const pendingTasksChanges = renameNamedImport(
+        sourceFiles, '@angular/core', 'ExperimentalPendingTasks', 'PendingTasks', ctx
+      );
+      pendingTasksChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...pendingTasksChanges);
     }
 
     // KeyValueDiffers.factories — removed
-    const { changes: kvdChanges, warnings: kvdWarnings } = removeObsoleteImport(
-      sourceFiles, '@angular/core', 'KeyValueDiffers', ctx
-    );
-    // Only warn if .factories is actually accessed
-    for (const sf of sourceFiles) {
-      sf.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression).forEach(pa => {
-        if (pa.getName() === 'factories') {
-          const objText = pa.getExpression().getText();
-          if (objText.toLowerCase().includes('differ')) {
-            result.warnings.push({
-              file: sf.getFilePath(),
-              message: `KeyValueDiffers.factories removed in Angular 19. Use KeyValueDiffer directly via DI.`,
-            });
-          }
-        }
-      });
+    if (isRuleEnabled(ctx, rules.keyValueDiffersImport)) {
+      const { changes: kvdChanges, warnings: kvdWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/core', 'KeyValueDiffers', ctx
+      );
+      kvdChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...kvdChanges);
+      result.warnings.push(...kvdWarnings.map(w => ({
+        ...w,
+        message: `KeyValueDiffers import removed. KeyValueDiffers.factories is gone in Angular 19 — check remaining usages.`,
+        rule: rules.keyValueDiffersImport.id,
+      })));
     }
 
-    // Router.errorHandler property — removed
-    for (const sf of sourceFiles) {
-      sf.getDescendantsOfKind(SyntaxKind.BinaryExpression).forEach(bin => {
-        const left = bin.getLeft();
-        if (!Node.isPropertyAccessExpression(left)) return;
-        if (left.getName() !== 'errorHandler') return;
-        const objType = left.getExpression().getText();
-        if (objType.toLowerCase().includes('router')) {
-          result.warnings.push({
-            file: sf.getFilePath(),
-            message: `router.errorHandler = ... removed in Angular 19. Use withNavigationErrorHandler((e) => ...) in provideRouter() or RouterModule.forRoot(routes, { errorHandler: ... }) instead.`,
-          });
-          ctx.logger.warn(`${sf.getBaseName()}: router.errorHandler assignment — use withNavigationErrorHandler()`);
-        }
-      });
-    }
+    // BrowserModule.withServerTransition() codemod plus the KeyValueDiffers.factories
+    // and Router.errorHandler detectors — one traversal per file
+    ctx.logger.info('Removing BrowserModule.withServerTransition(), checking for removed KeyValueDiffers/Router APIs...');
+    const { changes: astChanges, warnings: astWarnings } = await runAstRules(
+      sourceFiles,
+      [
+        browserModuleWithServerTransitionRule, keyValueDiffersFactoriesRule, routerErrorHandlerRule,
+        effectsTimingRule, applicationTickRethrowRule,
+      ],
+      ctx
+    );
+    astChanges.forEach(c => ctx.logger.change(c.file, c.description));
+    astWarnings.forEach(w => ctx.logger.warn(w.message));
+    result.changes.push(...astChanges);
+    result.warnings.push(...astWarnings);
 
     // standalone: false — add to all components/directives/pipes that don't have it
     // (Angular 19 changed the default from false to true)
-    ctx.logger.info('Adding standalone: false to NgModule-based declarations...');
-    const standaloneChanges = addStandaloneFalse(sourceFiles, ctx);
-    standaloneChanges.forEach(c => ctx.logger.change(c.file, c.description));
-    result.changes.push(...standaloneChanges);
-    if (standaloneChanges.length > 0) {
-      result.warnings.push({
-        file: 'angular.json',
-        message: `[Angular 19] Added standalone: false to ${standaloneChanges.length} component(s)/directive(s)/pipe(s). Angular 19 changed the default to standalone: true. Components with standalone: true that are still in NgModule.declarations should be removed from declarations[].`,
-      });
+    if (isRuleEnabled(ctx, rules.standaloneFalse)) {
+      ctx.logger.info('Adding standalone: false to NgModule-based declarations...');
+      const standaloneChanges = addStandaloneFalse(sourceFiles, ctx);
+      standaloneChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...standaloneChanges);
+      if (standaloneChanges.length > 0) {
+        result.warnings.push({
+          file: ctx.projectPath,
+          message: `[Angular 19] Added standalone: false to ${standaloneChanges.length} component(s)/directive(s)/pipe(s). Angular 19 changed the default to standalone: true. Components with standalone: true that are still in NgModule.declarations should be removed from declarations[].`,
+          rule: rules.standaloneFalse.id,
+        });
+      }
     }
 
     // Detect legacy Angular Material components (removed in v19)
-    const legacyMaterialModules = [
-      'MatLegacyButtonModule', 'MatLegacyCardModule', 'MatLegacyCheckboxModule',
-      'MatLegacyChipsModule', 'MatLegacyDialogModule', 'MatLegacyFormFieldModule',
-      'MatLegacyInputModule', 'MatLegacyListModule', 'MatLegacyMenuModule',
-      'MatLegacyProgressBarModule', 'MatLegacyProgressSpinnerModule', 'MatLegacyRadioModule',
-      'MatLegacySelectModule', 'MatLegacySlideToggleModule', 'MatLegacySliderModule',
-      'MatLegacySnackBarModule', 'MatLegacyTableModule', 'MatLegacyTabsModule',
-      'MatLegacyTooltipModule',
-    ];
-    for (const sf of sourceFiles) {
-      for (const imp of sf.getImportDeclarations()) {
-        if (!imp.getModuleSpecifierValue().startsWith('@angular/material')) continue;
-        const found = imp.getNamedImports()
-          .filter(ni => legacyMaterialModules.includes(ni.getName()))
-          .map(ni => ni.getName());
-        if (found.length > 0) {
-          result.warnings.push({
-            file: sf.getFilePath(),
-            message: `Legacy Angular Material components removed in v19: ${found.join(', ')}. Replace with MDC-based equivalents (remove 'Legacy' from the class name).`,
-          });
-          ctx.logger.warn(`${sf.getBaseName()}: legacy Material: ${found.join(', ')}`);
+    if (isRuleEnabled(ctx, rules.legacyMaterialModules)) {
+      const legacyMaterialModules = [
+        'MatLegacyButtonModule', 'MatLegacyCardModule', 'MatLegacyCheckboxModule',
+        'MatLegacyChipsModule', 'MatLegacyDialogModule', 'MatLegacyFormFieldModule',
+        'MatLegacyInputModule', 'MatLegacyListModule', 'MatLegacyMenuModule',
+        'MatLegacyProgressBarModule', 'MatLegacyProgressSpinnerModule', 'MatLegacyRadioModule',
+        'MatLegacySelectModule', 'MatLegacySlideToggleModule', 'MatLegacySliderModule',
+        'MatLegacySnackBarModule', 'MatLegacyTableModule', 'MatLegacyTabsModule',
+        'MatLegacyTooltipModule',
+      ];
+      for (const sf of sourceFiles) {
+        for (const imp of sf.getImportDeclarations()) {
+          if (!imp.getModuleSpecifierValue().startsWith('@angular/material')) continue;
+          const specifiers = imp.getNamedImports().filter(ni => legacyMaterialModules.includes(ni.getName()));
+          const found = specifiers.map(ni => ni.getName());
+          if (found.length > 0) {
+            result.warnings.push({
+              file: sf.getFilePath(),
+              message: `Legacy Angular Material components removed in v19: ${found.join(', ')}. Replace with MDC-based equivalents (remove 'Legacy' from the class name).`,
+              ...nodeLocation(specifiers[0]),
+              rule: rules.legacyMaterialModules.id,
+            });
+            ctx.logger.warn(`${sf.getBaseName()}: legacy Material: ${found.join(', ')}`);
+          }
         }
       }
     }
 
-    // Behavior change warnings
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 19] Signal effects now run during change detection (not as microtasks). Effects outside change detection will now run during the next CD cycle.',
-    });
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 19] [routerLink]="null" now removes the href attribute. Review conditional routerLink bindings that use null/undefined as a "disabled" state.',
-    });
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 19] Template property reads: this.foo in templates no longer refers to template variables. If you have template variables and class properties with the same name, remove this. prefix.',
-    });
-    result.warnings.push({
-      file: 'angular.json',
-      message: '[Angular 19] ApplicationRef.tick() errors in TestBed are now rethrown. Wrap expected-to-throw scenarios with expect(() => fixture.detectChanges()).toThrow(), or set rethrowApplicationErrors: false in TestBed.',
-    });
+    // Template-based behavior changes
+    const templates = isRuleSelected(ctx, rules.routerLinkNull) || isRuleSelected(ctx, rules.templateThisReads)
+      ? getComponentTemplates(sourceFiles, ctx)
+      : [];
+    if (isRuleEnabled(ctx, rules.routerLinkNull)) {
+      for (const { resource, ...location } of findInResources(templates, /\[routerLink\]/g)) {
+        result.warnings.push({
+          file: resource.file,
+          message: '[Angular 19] [routerLink]="null" now removes the href attribute. If this binding uses null/undefined as a "disabled" state, check the rendered link.',
+          ...location,
+          rule: rules.routerLinkNull.id,
+        });
+      }
+    }
+    if (isRuleEnabled(ctx, rules.templateThisReads)) {
+      for (const { resource, ...location } of findInResources(templates, /\bthis\./g)) {
+        result.warnings.push({
+          file: resource.file,
+          message: '[Angular 19] this.foo in templates no longer refers to template variables, only to class properties. If a template variable has the same name, remove the this. prefix.',
+          ...location,
+          rule: rules.templateThisReads.id,
+        });
+      }
+    }
 
     return result;
   },
@@ -0,0 +1,283 @@
+import * as path from 'path';
+import { MigrationStep, MigrationContext, MigrationResult, Warning } from '../types';
+import { PackageVersionOptions, readPackageJson, updatePackageVersions } from '../utils/pkg';
+import { compareVersions, getNodeEngines, getPackageVersions, isNodeVersionAllowed, minVersion } from '../utils/versions';
+import {
+  getSourceFiles,
+  renameNamedImport,
+  removeObsoleteImport,
+} from '../utils/codemods';
+import { defineAstRule, runAstRules } from '../utils/rule-engine';
+import { defineRules, getRuleOptions, isRuleEnabled } from '../utils/rules';
+import { findInResources, getComponentTemplates } from '../utils/templates';
+import { SyntaxKind, Node } from 'ts-morph';
+
+// TestBed.get() — removed, TestBed.inject() is the typed replacement
+const testBedGetRule = defineAstRule({
+  id: 'test-bed-get',
+  visitors: {
+    [SyntaxKind.CallExpression]: (call, file) => {
+      const expr = call.getExpression();
+      if (!Node.isPropertyAccessExpression(expr) || expr.getName() !== 'get') return;
+      if (expr.getExpression().getText() !== 'TestBed') return;
+      file.edit(() => expr.getNameNode().replaceWithText('inject'));
+      file.addChange('TestBed.get() → TestBed.inject() (removed in Angular 20)');
+    },
+  },
+});
+
+// InjectFlags → InjectOptions object, e.g. inject(X, InjectFlags.Optional) → inject(X, { optional: true })
+const injectFlagOptions: Record<string, string | null> = {
+  Default: null,
+  Optional: 'optional',
+  Self: 'self',
+  SkipSelf: 'skipSelf',
+  Host: 'host',
+};
+
+const injectFlagsRule = defineAstRule({
+  id: 'inject-flags',
+  visitors: {
+    [SyntaxKind.CallExpression]: (call, file) => {
+      const args = call.getArguments();
+      if (args.length < 2) return;
+      const flagsArg = args[args.length - 1];
+
+      const flags = flagsArg.getText().split('|').map(f => /^\s*InjectFlags\.(\w+)\s*$/.exec(f)?.[1]);
+      if (!flags.every(f => f !== undefined && f in injectFlagOptions)) return;
+
+      const options = flags.map(f => injectFlagOptions[f!]).filter(o => o !== null).map(o => `${o}: true`);
+      const replacement = options.length > 0 ? `{ ${options.join(', ')} }` : null;
+      file.edit(() => replacement ? flagsArg.replaceWithText(replacement) : call.removeArgument(flagsArg));
+      file.addChange(`${flagsArg.getText()} → ${replacement ?? '(default, argument removed)'} (InjectFlags removed in Angular 20)`);
+    },
+  },
+});
+
+const rules = defineRules(20, {
+  updatePackages: {
+    id: 'update-packages-v20',
+    kind: 'auto-fix',
+    description: 'Bump Angular, its tooling and ecosystem packages in package.json to the Angular 20 row of the version matrix',
+  },
+  typescriptVersion: {
+    id: 'typescript-version-v20',
+    kind: 'detect',
+    description: 'Flag a TypeScript range in package.json below 5.8, the minimum for Angular 20',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  nodeVersion: {
+    id: 'node-version-v20',
+    kind: 'detect',
+    description: 'Flag engines.node, .nvmrc or .node-version below Node.js 20.19 / 22.12, the minimum for Angular 20',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  zonelessChangeDetection: {
+    id: 'zoneless-change-detection',
+    kind: 'auto-fix',
+    description: 'Rename provideExperimentalZonelessChangeDetection to provideZonelessChangeDetection',
+  },
+  afterEveryRender: {
+    id: 'after-every-render',
+    kind: 'auto-fix',
+    description: 'Rename afterRender to afterEveryRender',
+  },
+  testBedGet: {
+    id: testBedGetRule.id,
+    kind: 'auto-fix',
+    description: 'Replace TestBed.get() with TestBed.inject()',
+  },
+  injectFlags: {
+    id: injectFlagsRule.id,
+    kind: 'auto-fix',
+    description: 'Replace InjectFlags arguments with InjectOptions objects and remove the InjectFlags import',
+    category: 'manual-fix',
+    severity: 'error',
+  },
+  structuralDirectives: {
+    id: 'structural-directives-deprecation',
+    kind: 'detect',
+    description: 'Flag *ngIf and *ngFor in templates (deprecated in favor of @if / @for)',
+    category: 'deprecation',
+  },
+});
+
+/**
+ * Angular 19 → 20
+ *
+ * Breaking changes (official migration guide):
+ *
+ * RENAMES:
+ * - provideExperimentalZonelessChangeDetection → provideZonelessChangeDetection (@angular/core)
+ * - afterRender → afterEveryRender (@angular/core)
+ *
+ * REMOVED APIs:
+ * - TestBed.get() — use TestBed.inject()
+ * - InjectFlags (@angular/core) — use an options object ({ optional: true, ... })
+ *
+ * TOOLCHAIN:
+ * - TypeScript 5.8+ required
+ * - Node.js ^20.19.0 || ^22.12.0 || >=24.0.0 required
+ *
+ * DEPRECATIONS (warnings):
+ * - *ngIf / *ngFor structural directives — use the built-in @if / @for control flow
+ */
+export const v19ToV20: MigrationStep = {
+  from: 19,
+  to: 20,
+  name: 'Angular 19 → 20',
+
+  async run(ctx: MigrationContext): Promise<MigrationResult> {
+    const result: MigrationResult = {
+      step: this.name,
+      changes: [],
+      warnings: [],
+      errors: [],
+    };
+
+    ctx.logger.step('Angular 19 → 20');
+
+    // 1. package.json
+    if (isRuleEnabled(ctx, rules.updatePackages)) {
+      ctx.logger.info('Updating package versions...');
+      const { changes: pkgChanges, warnings: pkgWarnings } = updatePackageVersions(
+        ctx, 20, getRuleOptions<PackageVersionOptions>(ctx, rules.updatePackages).versions
+      );
+      pkgChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      pkgWarnings.forEach(w => ctx.logger.warn(w.message));
+      result.changes.push(...pkgChanges);
+      result.warnings.push(...pkgWarnings.map(w => ({ ...w, rule: rules.updatePackages.id })));
+    }
+
+    // 2. Toolchain floors — checked after the bump, so only pinned or overridden versions remain
+    if (isRuleEnabled(ctx, rules.typescriptVersion)) {
+      const warning = checkTypeScriptVersion(ctx);
+      if (warning) {
+        ctx.logger.warn(warning.message);
+        result.warnings.push({ ...warning, rule: rules.typescriptVersion.id });
+      }
+    }
+
+    if (isRuleEnabled(ctx, rules.nodeVersion)) {
+      for (const warning of checkNodeVersions(ctx)) {
+        ctx.logger.warn(warning.message);
+        result.warnings.push({ ...warning, rule: rules.nodeVersion.id });
+      }
+    }
+
+    // 3. TypeScript codemods
+    ctx.logger.info('Scanning TypeScript files...');
+    const sourceFiles = getSourceFiles(ctx.project, ctx.projectPath);
+    ctx.logger.info(`Found ${sourceFiles.length} TypeScript files`);
+
+    // provideExperimentalZonelessChangeDetection → provideZonelessChangeDetection
+    if (isRuleEnabled(ctx, rules.zonelessChangeDetection)) {
+      ctx.logger.info('Migrating provideExperimentalZonelessChangeDetection → provideZonelessChangeDetection...');
+      const zonelessChanges = renameNamedImport(
+        sourceFiles, '@angular/core', 'provideExperimentalZonelessChangeDetection', 'provideZonelessChangeDetection', ctx
+      );
+      zonelessChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...zonelessChanges);
+    }
+
+    // afterRender → afterEveryRender
+    if (isRuleEnabled(ctx, rules.afterEveryRender)) {
+      ctx.logger.info('Migrating afterRender → afterEveryRender...');
+      const afterRenderChanges = renameNamedImport(
+        sourceFiles, '@angular/core', 'afterRender', 'afterEveryRender', ctx
+      );
+      afterRenderChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...afterRenderChanges);
+    }
+
+    // TestBed.get() and InjectFlags arguments — one traversal per file
+    ctx.logger.info('Migrating TestBed.get() and InjectFlags...');
+    const { changes: astChanges, warnings: astWarnings } = await runAstRules(
+      sourceFiles,
+      [testBedGetRule, injectFlagsRule],
+      ctx
+    );
+    astChanges.forEach(c => ctx.logger.change(c.file, c.description));
+    astWarnings.forEach(w => ctx.logger.warn(w.message));
+    result.changes.push(...astChanges);
+    result.warnings.push(...astWarnings);
+
+    // InjectFlags import — removed; only files with usages left after the codemod need a look
+    if (isRuleEnabled(ctx, rules.injectFlags)) {
+      const { changes: flagsChanges, warnings: flagsWarnings } = removeObsoleteImport(
+        sourceFiles, '@angular/core', 'InjectFlags', ctx
+      );
+      flagsChanges.forEach(c => ctx.logger.change(c.file, c.description));
+      result.changes.push(...flagsChanges);
+      const leftover = flagsWarnings.filter(w => sourceFiles.some(sf =>
+        sf.getFilePath() === w.file &&
+        sf.getDescendantsOfKind(SyntaxKind.Identifier).some(id => id.getText() === 'InjectFlags')
+      ));
+      result.warnings.push(...leftover.map(w => ({
+        ...w,
+        message: `InjectFlags removed in Angular 20. Pass an options object instead, e.g. inject(Token, { optional: true, skipSelf: true }).`,
+        rule: rules.injectFlags.id,
+      })));
+    }
+
+    // *ngIf / *ngFor — one warning per template, at the first usage
+    if (isRuleEnabled(ctx, rules.structuralDirectives)) {
+      const matches = findInResources(getComponentTemplates(sourceFiles, ctx), /\*ng(?:If|For)\b/g);
+      for (const resource of new Set(matches.map(m => m.resource))) {
+        const inTemplate = matches.filter(m => m.resource === resource);
+        const { line, column, endLine, endColumn } = inTemplate[0];
+        result.warnings.push({
+          file: resource.file,
+          message: `[Angular 20] *ngIf and *ngFor are deprecated (${inTemplate.length} in this template). Switch to the built-in @if / @for blocks, e.g. with ng generate @angular/core:control-flow.`,
+          line, column, endLine, endColumn,
+          rule: rules.structuralDirectives.id,
+        });
+      }
+    }
+
+    return result;
+  },
+};
+
+function checkTypeScriptVersion(ctx: MigrationContext): Warning | null {
+  const pkg = readPackageJson(ctx.projectPath, ctx.files);
+  const range = pkg.devDependencies?.['typescript'] ?? pkg.dependencies?.['typescript'];
+  const version = range ? minVersion(range) : null;
+  const supported = getPackageVersions(20, ctx.config)['typescript'];
+  const floor = minVersion(supported);
+  if (!version || !floor || compareVersions(version, floor) >= 0) return null;
+
+  return {
+    file: path.join(ctx.projectPath, 'package.json'),
+    message: `typescript "${range}" is below the minimum for Angular 20 (>=${floor.join('.')}). Update it to ${supported} or later.`,
+  };
+}
+
+/** engines.node in package.json, .nvmrc and .node-version — whichever the project has */
+function checkNodeVersions(ctx: MigrationContext): Warning[] {
+  const sources: Array<{ file: string; value: string }> = [];
+
+  const engines = readPackageJson(ctx.projectPath, ctx.files).engines as Record<string, string> | undefined;
+  if (engines?.node) {
+    sources.push({ file: path.join(ctx.projectPath, 'package.json'), value: engines.node });
+  }
+  for (const name of ['.nvmrc', '.node-version']) {
+    const file = path.join(ctx.projectPath, name);
+    if (ctx.files.exists(file)) {
+      sources.push({ file, value: ctx.files.read(file).trim() });
+    }
+  }
+
+  const supported = getNodeEngines(20, ctx.config);
+  const warnings: Warning[] = [];
+  for (const { file, value } of sources) {
+    if (isNodeVersionAllowed(value, supported) !== false) continue;
+    warnings.push({
+      file,
+      message: `Node.js "${value}" is below the minimum for Angular 20 (${supported}). Update ${path.basename(file) === 'package.json' ? 'engines.node' : path.basename(file)} and the Node.js version in CI.`,
+    });
+  }
+  return warnings;
+}
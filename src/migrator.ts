@@ -1,18 +1,45 @@
 import * as path from 'path';
 import * as fs from 'fs';
-import { MigrationContext, MigrationResult, MigrationStep } from './types';
+import { Project } from 'ts-morph';
+import { Logger, MigrationContext, MigrationResult, MigrationStep } from './types';
 import { ConsoleLogger } from './utils/logger';
-import { detectAngularVersion } from './utils/pkg';
+import { detectAngularVersion, readPackageJson } from './utils/pkg';
+import { ProjectFiles } from './utils/files';
+import { createTsProject, reloadSourceFiles, saveSourceFiles } from './utils/codemods';
+import { createProjectDiff, printDiffs } from './utils/diff';
+import { JOURNAL_DIR, writeJournal } from './utils/journal';
+import { AnalysisCache } from './utils/cache';
+import { RuleSelection, validateRuleSelection, withRuleDetails } from './utils/rules';
+import { ReportFormat, loadConfig } from './utils/config';
+import { writeReports } from './utils/report';
+import { loadPlugins, mergePluginSteps } from './utils/plugins';
+import { loadRulePacks } from './utils/rule-packs';
+import { PeerAudit, auditPeerDependencies, updatePeerAudit } from './utils/peer-audit';
+import {
+  RunOptions,
+  StepState,
+  createRuleProgress,
+  createRunState,
+  diffRunOptions,
+  getResumeStep,
+  getRunRecords,
+  readRunState,
+  saveRunState,
+} from './utils/state';
+import { v14ToV15 } from './migrations/v14-to-v15';
 import { v15ToV16 } from './migrations/v15-to-v16';
 import { v16ToV17 } from './migrations/v16-to-v17';
 import { v17ToV18 } from './migrations/v17-to-v18';
 import { v18ToV19 } from './migrations/v18-to-v19';
+import { v19ToV20 } from './migrations/v19-to-v20';
 
-const ALL_STEPS: MigrationStep[] = [
+export const ALL_STEPS: MigrationStep[] = [
+  v14ToV15,
   v15ToV16,
   v16ToV17,
   v17ToV18,
   v18ToV19,
+  v19ToV20,
 ];
 
 export interface MigratorOptions {
@@ -21,163 +48,408 @@ export interface MigratorOptions {
   toVersion?: number;
   dryRun?: boolean;
   skipPackageJson?: boolean;
+  /** Run in memory and write a patch file here instead of touching the project */
+  outputPatch?: string;
+  /** Restore files written by a step that throws or reports errors (default: true) */
+  rollback?: boolean;
+  /** Roll back the whole run, not just the failing step */
+  atomic?: boolean;
+  /** Continue the interrupted run recorded in .ng-migrate/state.json */
+  resume?: boolean;
+  /** Worker threads for detect-only rules (default: 1, no workers) */
+  concurrency?: number;
+  /** Reuse detector results for files unchanged since the last run (default: true) */
+  cache?: boolean;
+  /** Config file to use instead of <projectPath>/ng-migrate.config.json */
+  configPath?: string;
+  /** Plugin modules to load in addition to the config's plugins (relative to the cwd) */
+  plugins?: string[];
+  /** Rule pack files to load in addition to the config's rulePacks (relative to the cwd) */
+  rulePacks?: string[];
+  /** Run only these rule ids (see `ng-migrate list-rules`) */
+  only?: string[];
+  /** Rule ids to leave out */
+  skip?: string[];
+  /** Receives all progress output (default: ConsoleLogger) */
+  logger?: Logger;
+  /** Write reports at all; false overrides reportFormats (default: true) */
+  report?: boolean;
+  /** Reports to write (default: the config's reportFormats, else ['md']) */
+  reportFormats?: ReportFormat[];
+  /** Directory for the reports, relative to the project root (default: the config's reportDir, else the root) */
+  reportDir?: string;
+  /** Print the header, dry-run diffs and final summary to stdout (default: true) */
+  banner?: boolean;
 }
 
-export async function migrate(options: MigratorOptions): Promise<void> {
-  const { projectPath, dryRun = false, skipPackageJson = false } = options;
-  const logger = new ConsoleLogger();
+export interface MigrationTotals {
+  changes: number;
+  warnings: number;
+  errors: number;
+}
+
+/** What migrate() resolves with, for callers that use it as a library */
+export interface MigrationRunResult {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  /** One entry per step that ran, in order */
+  results: MigrationResult[];
+  totals: MigrationTotals;
+  /** Installed libraries whose Angular peer ranges exclude the target; null without node_modules */
+  peerAudit: PeerAudit | null;
+}
+
+export async function migrate(options: MigratorOptions): Promise<MigrationRunResult> {
+  const {
+    projectPath, skipPackageJson = false, outputPatch, rollback = true, atomic = false,
+    concurrency = 1, cache = true, banner = true,
+  } = options;
+  // Patch mode never touches the working copy, so it runs on the in-memory overlay
+  const dryRun = (options.dryRun ?? false) || outputPatch !== undefined;
+  const logger = options.logger ?? new ConsoleLogger();
 
   const absPath = path.resolve(projectPath);
   if (!fs.existsSync(absPath)) {
     throw new Error(`Project path does not exist: ${absPath}`);
   }
 
+  // Options given explicitly win over ng-migrate.config.json
+  const { config, file: configFile } = loadConfig(absPath, options.configPath);
+  const plugins = [
+    ...loadPlugins(config.plugins ?? [], absPath),
+    ...loadPlugins(options.plugins ?? [], process.cwd()),
+    ...loadRulePacks(config.rulePacks ?? [], absPath),
+    ...loadRulePacks(options.rulePacks ?? [], process.cwd()),
+  ];
+  const allSteps = mergePluginSteps(ALL_STEPS, plugins);
+  const reportFormats = options.report === false ? [] : options.reportFormats ?? config.reportFormats ?? ['md'];
+  const reportDir = options.reportDir ?? config.reportDir;
+  const rules: RuleSelection = {
+    only: options.only ?? null,
+    skip: [...new Set([...(config.disabledRules ?? []), ...(options.skip ?? [])])],
+  };
+  validateRuleSelection(rules, Object.keys(config.rules ?? {}));
+  const runOptions: RunOptions = { plugins: plugins.map(p => p.name), only: rules.only, skip: rules.skip, skipPackageJson };
+
+  // --resume picks up the range and first unfinished step from the checkpoint,
+  // since package.json may already be bumped by the interrupted run
+  const savedState = options.resume ? readRunState(absPath) : null;
+  if (options.resume) {
+    if (!savedState) {
+      throw new Error(`No run to resume: ${JOURNAL_DIR}/state.json not found in ${absPath}`);
+    }
+    // Other plugins or rule selections would run different steps and rules than the ones recorded
+    const differences = savedState.options ? diffRunOptions(savedState.options, runOptions) : [];
+    if (differences.length > 0) {
+      throw new Error(`Cannot resume: the recorded run was started with other options (${differences.join('; ')}). Pass the same --plugin, --rule-pack, --only, --skip and --skip-package-json, or start a new run without --resume.`);
+    }
+    const resumeStep = getResumeStep(savedState);
+    if (!resumeStep) {
+      logger.info(`Recorded run Angular ${savedState.fromVersion} → ${savedState.toVersion} already completed, nothing to resume.`);
+      return runResult(savedState.fromVersion, savedState.toVersion, dryRun, []);
+    }
+    const completedRules = resumeStep.completedRules ?? [];
+    logger.info(`Resuming at "${resumeStep.name}" (${resumeStep.status}, ${resumeStep.writtenFiles.length} file(s) written before${completedRules.length > 0 ? `, skipping finished rules ${completedRules.join(', ')}` : ''})`);
+  }
+
   // Allow explicit --from override (useful when package.json already has the target version)
-  const currentVersion = options.fromVersion ?? detectAngularVersion(absPath);
-  const toVersion = options.toVersion ?? 19;
+  const currentVersion = savedState
+    ? getResumeStep(savedState)!.from
+    : options.fromVersion ?? detectAngularVersion(absPath);
+  const toVersion = savedState?.toVersion ?? options.toVersion ?? config.to ?? 20;
 
-  console.log('');
-  console.log(`  Angular Migrator`);
-  console.log(`  ─────────────────────────────────────────`);
-  console.log(`  Project : ${absPath}`);
-  console.log(`  From    : Angular ${currentVersion}`);
-  console.log(`  To      : Angular ${toVersion}`);
-  console.log(`  Dry run : ${dryRun ? 'YES (no files will be changed)' : 'NO'}`);
-  console.log(`  pkg.json: ${skipPackageJson ? 'SKIP (versions untouched)' : 'UPDATE'}`);
-  console.log(`  ─────────────────────────────────────────`);
-  console.log('');
+  if (banner) {
+    console.log('');
+    console.log(`  Angular Migrator`);
+    console.log(`  ─────────────────────────────────────────`);
+    console.log(`  Project : ${absPath}`);
+    if (configFile) {
+      console.log(`  Config  : ${path.relative(absPath, configFile) || configFile}`);
+    }
+    if (plugins.length > 0) {
+      console.log(`  Plugins : ${plugins.map(p => p.name).join(', ')}`);
+    }
+    console.log(`  From    : Angular ${currentVersion}`);
+    console.log(`  To      : Angular ${toVersion}`);
+    console.log(`  Dry run : ${dryRun ? 'YES (no files will be changed)' : 'NO'}`);
+    if (outputPatch) {
+      console.log(`  Patch   : ${path.resolve(outputPatch)}`);
+    }
+    console.log(`  pkg.json: ${skipPackageJson ? 'SKIP (versions untouched)' : 'UPDATE'}`);
+    console.log(`  Rollback: ${!rollback ? 'OFF' : atomic ? 'WHOLE RUN' : 'PER STEP'}`);
+    if (concurrency > 1) {
+      console.log(`  Workers : ${concurrency}`);
+    }
+    console.log(`  Cache   : ${cache ? 'ON' : 'OFF'}`);
+    if (rules.only) {
+      console.log(`  Only    : ${rules.only.join(', ')}`);
+    }
+    if (rules.skip.length > 0) {
+      console.log(`  Skip    : ${rules.skip.join(', ')}`);
+    }
+    console.log(`  ─────────────────────────────────────────`);
+    console.log('');
+  }
 
   if (currentVersion >= toVersion) {
     logger.info(`Project is already at Angular ${currentVersion}, nothing to do.`);
-    return;
+    return runResult(currentVersion, toVersion, dryRun, []);
   }
 
-  const stepsToRun = ALL_STEPS.filter(
+  const stepsToRun = allSteps.filter(
     s => s.from >= currentVersion && s.to <= toVersion
   );
 
   if (stepsToRun.length === 0) {
     logger.warn(`No migration steps found for Angular ${currentVersion} → ${toVersion}`);
-    return;
+    return runResult(currentVersion, toVersion, dryRun, []);
+  }
+
+  // Libraries in node_modules that `npm install` would reject for the target major
+  let peerAudit = auditPeerDependencies(absPath, toVersion);
+  if (peerAudit && peerAudit.before.length > 0) {
+    const names = [...new Set(peerAudit.before.map(c => c.name))];
+    logger.warn(`${names.length} installed package(s) have peer dependencies that exclude Angular ${toVersion}: ${names.join(', ')}`);
   }
 
+  const files = new ProjectFiles(dryRun);
   const allResults: MigrationResult[] = [];
 
+  // Checkpoints are only useful when files on disk actually change
+  const state = dryRun ? null : savedState ?? createRunState(stepsToRun, currentVersion, toVersion, runOptions);
+  let stepState: StepState | undefined;
+  if (state) {
+    saveRunState(absPath, state);
+    const originals = (state.originals ??= {});
+    files.onWrite((filePath, before) => {
+      const relPath = path.relative(absPath, filePath).split(path.sep).join('/');
+      let changed = false;
+      // First write of the whole run: a resumed attempt sees the interrupted one's output as "before"
+      if (!(relPath in originals)) {
+        originals[relPath] = before;
+        changed = true;
+      }
+      if (stepState && !stepState.writtenFiles.includes(relPath)) {
+        stepState.writtenFiles.push(relPath);
+        changed = true;
+      }
+      if (changed) saveRunState(absPath, state);
+    });
+  }
+
+  // One parse of the workspace for the whole run; steps share it via ctx.project
+  logger.info('Loading TypeScript project...');
+  let project: Project;
+  try {
+    project = createTsProject(absPath, files, config);
+  } catch (e) {
+    throw new Error(`Could not load TypeScript project: ${e}`);
+  }
+
+  const analysisCache = cache ? AnalysisCache.load(absPath) : null;
+
+  if (rollback && atomic) {
+    files.begin();
+  }
+
   for (const step of stepsToRun) {
+    stepState = state?.steps.find(s => s.name === step.name);
+    if (state && stepState) {
+      stepState.status = 'running';
+      stepState.writtenFiles = [];
+      stepState.completedRules ??= [];
+      saveRunState(absPath, state);
+    }
+
+    // A finished rule's source edits are saved right away, so a resumed run can skip it
+    const checkpointed = stepState;
+    const progress = state && checkpointed
+      ? createRuleProgress([...checkpointed.completedRules], finished => {
+          saveSourceFiles(project, files);
+          checkpointed.completedRules.push(...finished.filter(id => !checkpointed.completedRules.includes(id)));
+          saveRunState(absPath, state);
+        })
+      : null;
+
     const ctx: MigrationContext = {
       projectPath: absPath,
       fromVersion: step.from,
       toVersion: step.to,
+      targetVersion: toVersion,
       dryRun,
       skipPackageJson,
       logger,
+      files,
+      project,
+      concurrency,
+      cache: analysisCache,
+      rules,
+      progress,
+      config,
     };
 
+    if (rollback && !atomic) {
+      files.begin();
+    }
+
+    let result: MigrationResult;
     try {
-      const result = await step.run(ctx);
-      allResults.push(result);
+      result = await step.run(ctx);
+      saveSourceFiles(project, files);
+      progress?.finish();
     } catch (err) {
       logger.error(`Step "${step.name}" failed: ${err}`);
-      allResults.push({
+      result = {
         step: step.name,
         changes: [],
         warnings: [],
         errors: [{ file: 'migrator', message: String(err) }],
-      });
+      };
+    }
+    result.warnings = result.warnings.map(withRuleDetails);
+    allResults.push(result);
+
+    if (state && stepState) {
+      stepState.status = result.errors.length === 0 ? 'completed' : 'failed';
+      saveRunState(absPath, state);
     }
+
+    if (!rollback) {
+      // Keep whatever the failed step managed to edit, as before transactions existed
+      saveSourceFiles(project, files);
+      continue;
+    }
+
+    if (result.errors.length === 0) {
+      if (!atomic) files.commit();
+      continue;
+    }
+
+    // Failed step: undo its writes (or the whole run) and stop — later steps
+    // assume every earlier one has been applied.
+    const restored = files.rollback();
+    reloadSourceFiles(project, files, restored);
+    const rolledBack = atomic ? allResults : [result];
+    for (const r of rolledBack) {
+      r.changes = [];
+    }
+    if (state) {
+      for (const s of state.steps) {
+        if (rolledBack.some(r => r.step === s.name)) {
+          s.status = 'failed';
+          s.writtenFiles = [];
+          s.completedRules = [];
+        }
+      }
+      saveRunState(absPath, state);
+    }
+    result.errors.push({
+      file: 'migrator',
+      message: `${atomic ? 'Run' : 'Step'} rolled back, ${restored.length} file(s) restored. Remaining steps were not run.`,
+    });
+    logger.warn(`Rolled back ${restored.length} file(s) written by ${atomic ? 'this run' : `"${step.name}"`}`);
+    break;
+  }
+
+  if (rollback && atomic) {
+    files.commit();
+  }
+  files.onWrite(null);
+
+  if (peerAudit) {
+    peerAudit = updatePeerAudit(peerAudit, readPackageJson(absPath, files));
+  }
+
+  // Dry runs (patch mode and check included) leave the project directory untouched, cache included
+  if (analysisCache && !dryRun) {
+    analysisCache.save();
+  }
+
+  const records = files.getRecords();
+  const runRecords = state ? getRunRecords(absPath, state, records, files) : records;
+  if (!dryRun && runRecords.length > 0) {
+    const journal = writeJournal(absPath, runRecords, state?.fromVersion ?? currentVersion, toVersion);
+    logger.info(`Change journal saved — undo with: ng-migrate revert --path ${absPath} --run ${journal.id}`);
+  }
+
+  if (outputPatch) {
+    const patchPath = path.resolve(outputPatch);
+    fs.writeFileSync(patchPath, createProjectDiff(absPath, records), 'utf-8');
+    logger.success(`Patch with ${records.length} file(s) written to ${patchPath}`);
   }
 
-  writeReport(absPath, allResults, dryRun);
+  let reportFiles: string[] = [];
+  if (!outputPatch && reportFormats.length > 0) {
+    reportFiles = writeReports(
+      { projectPath: absPath, results: allResults, dryRun, fromVersion: currentVersion, toVersion, fileRecords: records, peerAudit },
+      reportFormats,
+      reportDir
+    ).map(file => path.relative(absPath, file) || file);
+  }
+
+  const summary = runResult(currentVersion, toVersion, dryRun, allResults, peerAudit);
+  if (!banner) {
+    return summary;
+  }
+
+  if (dryRun && !outputPatch) {
+    logger.step('Dry run — diff of would-be changes');
+    printDiffs(absPath, records);
+  }
 
   // Print summary
-  const totalChanges = allResults.reduce((n, r) => n + r.changes.length, 0);
-  const totalWarnings = allResults.reduce((n, r) => n + r.warnings.length, 0);
-  const totalErrors = allResults.reduce((n, r) => n + r.errors.length, 0);
+  const { totals } = summary;
+  const reportStatus = outputPatch ? 'skipped (patch mode)' : reportFiles.length > 0 ? reportFiles.join(', ') : 'skipped';
 
   console.log('');
   console.log(`  ─────────────────────────────────────────`);
   console.log(`  Migration complete!`);
-  console.log(`  Changes  : ${totalChanges}`);
-  console.log(`  Warnings : ${totalWarnings} (require manual attention)`);
-  console.log(`  Errors   : ${totalErrors}`);
-  console.log(`  Report   : migration-report.md`);
+  console.log(`  Changes  : ${totals.changes}`);
+  console.log(`  Warnings : ${totals.warnings} (require manual attention)`);
+  console.log(`  Errors   : ${totals.errors}`);
+  console.log(`  Report   : ${reportStatus}`);
+  if (peerAudit) {
+    console.log(`  Peers    : ${peerAudit.after.length} conflict(s) with Angular ${toVersion} in ${peerAudit.checked} installed package(s)`);
+  }
   console.log(`  ─────────────────────────────────────────`);
   console.log('');
   console.log(`  Next steps:`);
-  console.log(`  1. Run: npm install`);
-  console.log(`  2. Run: ng build`);
-  console.log(`  3. Review migration-report.md for manual actions`);
+  if (outputPatch) {
+    console.log(`  1. Run: git apply ${path.resolve(outputPatch)} (from the project root)`);
+    console.log(`  2. Run: npm install`);
+    console.log(`  3. Run: ng build`);
+  } else {
+    console.log(`  1. Run: npm install`);
+    console.log(`  2. Run: ng build`);
+    console.log(`  3. Review ${reportFiles[0] ?? 'the warnings above'} for manual actions`);
+  }
+  if (peerAudit && peerAudit.after.length > 0) {
+    const names = [...new Set(peerAudit.after.map(c => c.name))];
+    console.log(`  npm install fails with ERESOLVE until these allow Angular ${toVersion}: ${names.join(', ')}`);
+    console.log(`  Upgrade or replace them first (see the peer dependency audit in the report).`);
+  }
   console.log('');
+  return summary;
 }
 
-function writeReport(
-  projectPath: string,
+function runResult(
+  fromVersion: number,
+  toVersion: number,
+  dryRun: boolean,
   results: MigrationResult[],
-  dryRun: boolean
-): void {
-  const now = new Date().toISOString().slice(0, 19).replace('T', ' ');
-  const lines: string[] = [];
-
-  lines.push(`# Angular Migration Report`);
-  lines.push('');
-  lines.push(`Generated: ${now}`);
-  lines.push(`Mode: ${dryRun ? 'DRY RUN (no files changed)' : 'APPLIED'}`);
-  lines.push('');
-  lines.push('---');
-  lines.push('');
-
-  for (const result of results) {
-    lines.push(`## ${result.step}`);
-    lines.push('');
-
-    if (result.changes.length > 0) {
-      lines.push(`### Changes applied (${result.changes.length})`);
-      lines.push('');
-      for (const change of result.changes) {
-        const shortFile = change.file.replace(projectPath, '').replace(/^[\\/]/, '');
-        if (change.before && change.after) {
-          lines.push(`- **${shortFile}**: ${change.description}`);
-          lines.push(`  - Before: \`${change.before}\``);
-          lines.push(`  - After: \`${change.after}\``);
-        } else {
-          lines.push(`- **${shortFile}**: ${change.description}`);
-        }
-      }
-      lines.push('');
-    } else {
-      lines.push('_No automatic changes in this step._');
-      lines.push('');
-    }
-
-    if (result.warnings.length > 0) {
-      lines.push(`### Manual attention required (${result.warnings.length})`);
-      lines.push('');
-      lines.push('> These items were detected but require manual fixes:');
-      lines.push('');
-      for (const warning of result.warnings) {
-        const shortFile = warning.file.replace(projectPath, '').replace(/^[\\/]/, '');
-        if (warning.line) {
-          lines.push(`- **${shortFile}:${warning.line}**: ${warning.message}`);
-        } else {
-          lines.push(`- **${shortFile}**: ${warning.message}`);
-        }
-      }
-      lines.push('');
-    }
-
-    if (result.errors.length > 0) {
-      lines.push(`### Errors`);
-      lines.push('');
-      for (const error of result.errors) {
-        lines.push(`- **${error.file}**: ${error.message}`);
-      }
-      lines.push('');
-    }
-
-    lines.push('---');
-    lines.push('');
-  }
-
-  const reportPath = path.join(projectPath, 'migration-report.md');
-  fs.writeFileSync(reportPath, lines.join('\n'), 'utf-8');
+  peerAudit: PeerAudit | null = null
+): MigrationRunResult {
+  return {
+    fromVersion,
+    toVersion,
+    dryRun,
+    results,
+    peerAudit,
+    totals: {
+      changes: results.reduce((n, r) => n + r.changes.length, 0),
+      warnings: results.reduce((n, r) => n + r.warnings.length, 0),
+      errors: results.reduce((n, r) => n + r.errors.length, 0),
+    },
+  };
 }
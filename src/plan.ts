@@ -0,0 +1,156 @@
+import * as path from 'path';
+import { Warning } from './types';
+import { MigrationRunResult, MigratorOptions, migrate } from './migrator';
+import { SilentLogger } from './utils/logger';
+import { loadCodeOwners } from './utils/codeowners';
+import { relativeFile } from './utils/report';
+
+export type PlanOptions = Pick<
+  MigratorOptions,
+  'projectPath' | 'fromVersion' | 'toVersion' | 'concurrency' | 'configPath' | 'plugins' | 'rulePacks' |
+  'only' | 'skip' | 'logger'
+>;
+
+/**
+ * Rough minutes per item behind the effort estimate: reviewing an automatic
+ * change, fixing a warning by hand, reading a behavior-change note, and
+ * building and testing the project once per step.
+ */
+export const EFFORT_MINUTES = {
+  change: 2,
+  error: 45,
+  warning: 20,
+  info: 5,
+  step: 60,
+};
+
+/** Files without a CODEOWNERS entry, or all files when there is no CODEOWNERS */
+export const UNOWNED = '(unowned)';
+
+export interface StepPlan {
+  step: string;
+  /** Edits the migrator makes by itself */
+  changes: number;
+  /** Warnings with severity error or warning — code someone has to change */
+  manual: number;
+  /** Severity info — behavior changes to review, often without code changes */
+  notes: number;
+  errors: number;
+  /** Project-relative files the step touches or warns about */
+  files: string[];
+  owners: string[];
+  effortHours: number;
+}
+
+export interface TeamPlan {
+  owner: string;
+  files: string[];
+  changes: number;
+  manual: number;
+  notes: number;
+}
+
+export interface PlanResult {
+  fromVersion: number;
+  toVersion: number;
+  steps: StepPlan[];
+  /** Per owner from CODEOWNERS, largest share of work first */
+  teams: TeamPlan[];
+  /** CODEOWNERS file used, null if none was found */
+  codeOwnersFile: string | null;
+  effortHours: number;
+  run: MigrationRunResult;
+}
+
+/**
+ * Run the steps from the project's version to `toVersion` in dry-run mode and
+ * summarise the result for planning. Nothing is written: no reports, no
+ * analysis cache, no journal.
+ */
+export async function plan(options: PlanOptions): Promise<PlanResult> {
+  const absPath = path.resolve(options.projectPath);
+
+  const run = await migrate({
+    ...options,
+    dryRun: true,
+    cache: false,
+    report: false,
+    banner: false,
+    logger: options.logger ?? new SilentLogger(),
+  });
+
+  const codeOwners = loadCodeOwners(absPath);
+  const ownersOf = (file: string): string[] => {
+    const owners = codeOwners?.ownersOf(path.resolve(absPath, file)) ?? [];
+    return owners.length > 0 ? owners : [UNOWNED];
+  };
+
+  const teams = new Map<string, TeamPlan>();
+  const team = (owner: string): TeamPlan => {
+    let entry = teams.get(owner);
+    if (!entry) {
+      entry = { owner, files: [], changes: 0, manual: 0, notes: 0 };
+      teams.set(owner, entry);
+    }
+    return entry;
+  };
+
+  const steps = run.results.map((result): StepPlan => {
+    const files = new Set<string>();
+    const owners = new Set<string>();
+    const count = (file: string, key: 'changes' | 'manual' | 'notes') => {
+      const relPath = relativeFile(absPath, file);
+      // Project-wide notes have no file to assign
+      if (!relPath) return;
+      files.add(relPath);
+      for (const owner of ownersOf(relPath)) {
+        owners.add(owner);
+        const entry = team(owner);
+        entry[key]++;
+        if (!entry.files.includes(relPath)) entry.files.push(relPath);
+      }
+    };
+
+    for (const change of result.changes) count(change.file, 'changes');
+    for (const warning of result.warnings) count(warning.file, isNote(warning) ? 'notes' : 'manual');
+
+    const manual = result.warnings.filter(w => !isNote(w));
+    const minutes =
+      EFFORT_MINUTES.step +
+      result.changes.length * EFFORT_MINUTES.change +
+      manual.reduce((sum, w) => sum + (w.severity === 'error' ? EFFORT_MINUTES.error : EFFORT_MINUTES.warning), 0) +
+      (result.warnings.length - manual.length) * EFFORT_MINUTES.info;
+
+    return {
+      step: result.step,
+      changes: result.changes.length,
+      manual: manual.length,
+      notes: result.warnings.length - manual.length,
+      errors: result.errors.length,
+      files: [...files].sort(),
+      owners: [...owners].sort(),
+      effortHours: toHours(minutes),
+    };
+  });
+
+  return {
+    fromVersion: run.fromVersion,
+    toVersion: run.toVersion,
+    steps,
+    teams: [...teams.values()]
+      .map(t => ({ ...t, files: t.files.sort() }))
+      .sort((a, b) => b.manual - a.manual || b.changes - a.changes || a.owner.localeCompare(b.owner)),
+    codeOwnersFile: codeOwners ? codeOwners.file : null,
+    effortHours: toHours(steps.reduce((sum, s) => sum + s.effortHours * 60, 0)),
+    run,
+  };
+}
+
+function isNote(warning: Warning): boolean {
+  return warning.severity === 'info';
+}
+
+/** Rounded up to half an hour */
+function toHours(minutes: number): number {
+  return Math.ceil(minutes / 30) / 2;
+}
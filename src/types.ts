@@ -1,10 +1,33 @@
+import { Project } from 'ts-morph';
+import { ProjectFiles } from './utils/files';
+import { AnalysisCache } from './utils/cache';
+import { RuleSelection } from './utils/rules';
+import { RuleProgress } from './utils/state';
+import { MigratorConfig } from './utils/config';
+
 export interface MigrationContext {
   projectPath: string;
   fromVersion: number;
   toVersion: number;
+  /** Final target of the whole run; toVersion is this step's own target */
+  targetVersion: number;
   dryRun: boolean;
   skipPackageJson: boolean;
   logger: Logger;
+  /** All file reads/writes of a step go through here (tracks originals, honours dry-run) */
+  files: ProjectFiles;
+  /** ts-morph project shared by all steps; edited sources are saved after each step */
+  project: Project;
+  /** Worker threads available to detect-only AST rules (1 = run in-process) */
+  concurrency: number;
+  /** Cached detector results from earlier runs, null with --no-cache */
+  cache: AnalysisCache | null;
+  /** Rules picked with --only / --skip; steps check it via isRuleEnabled() */
+  rules: RuleSelection;
+  /** Per-rule checkpoints of the step for --resume, null in dry runs */
+  progress: RuleProgress | null;
+  /** ng-migrate.config.json of the project ({} if there is none) */
+  config: MigratorConfig;
 }
 
 export interface MigrationResult {
@@ -19,12 +42,32 @@ export interface Change {
   description: string;
   before?: string;
   after?: string;
+  /** Id of the AST rule that produced the change */
+  rule?: string;
 }
 
+/** error: the code will not compile or run as before; info: a note that may not need action */
+export type WarningSeverity = 'error' | 'warning' | 'info';
+
+export type WarningCategory = 'manual-fix' | 'behavior-change' | 'deprecation';
+
 export interface Warning {
+  /** Flagged file, or the project root for notes that concern the whole project */
   file: string;
   message: string;
+  /** 1-based start of the flagged code */
   line?: number;
+  column?: number;
+  /** 1-based end of the flagged code (exclusive column) */
+  endLine?: number;
+  endColumn?: number;
+  /** Filled from the rule catalog after each step when the producer leaves it out (default: warning) */
+  severity?: WarningSeverity;
+  /** Id of the rule that produced the warning */
+  rule?: string;
+  category?: WarningCategory;
+  /** Where the change is explained, usually the Angular update guide */
+  docsUrl?: string;
 }
 
 export interface MigrationError {
@@ -1,18 +1,18 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import { Change, MigrationContext } from '../types';
+import { ProjectFiles } from './files';
 
 type AngularJsonAny = Record<string, unknown>;
 
-export function readAngularJson(projectPath: string): AngularJsonAny | null {
+export function readAngularJson(projectPath: string, files = new ProjectFiles()): AngularJsonAny | null {
   const filePath = path.join(projectPath, 'angular.json');
-  if (!fs.existsSync(filePath)) return null;
-  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as AngularJsonAny;
+  if (!files.exists(filePath)) return null;
+  return JSON.parse(files.read(filePath)) as AngularJsonAny;
 }
 
-export function writeAngularJson(projectPath: string, config: AngularJsonAny): void {
+export function writeAngularJson(projectPath: string, config: AngularJsonAny, files: ProjectFiles): void {
   const filePath = path.join(projectPath, 'angular.json');
-  fs.writeFileSync(filePath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  files.write(filePath, JSON.stringify(config, null, 2) + '\n');
 }
 
 /**
@@ -27,7 +27,7 @@ export function writeAngularJson(projectPath: string, config: AngularJsonAny): v
 export function migrateBrowserBuilderToApplication(
   ctx: MigrationContext
 ): Change[] {
-  const config = readAngularJson(ctx.projectPath);
+  const config = readAngularJson(ctx.projectPath, ctx.files);
   if (!config) return [];
 
   const changes: Change[] = [];
@@ -82,8 +82,8 @@ export function migrateBrowserBuilderToApplication(
     }
   }
 
-  if (changes.length > 0 && !ctx.dryRun) {
-    writeAngularJson(ctx.projectPath, config);
+  if (changes.length > 0) {
+    writeAngularJson(ctx.projectPath, config, ctx.files);
   }
 
   return changes;
@@ -101,7 +101,7 @@ export function migrateBrowserBuilderToApplication(
  *   "serve": { "configurations": { "production": { "buildTarget": "app:build:production" } } }
  */
 export function renameBrowserTargetToBuildTarget(ctx: MigrationContext): Change[] {
-  const config = readAngularJson(ctx.projectPath);
+  const config = readAngularJson(ctx.projectPath, ctx.files);
   if (!config) return [];
 
   const changes: Change[] = [];
@@ -133,8 +133,8 @@ export function renameBrowserTargetToBuildTarget(ctx: MigrationContext): Change[
     }
   }
 
-  if (changes.length > 0 && !ctx.dryRun) {
-    writeAngularJson(ctx.projectPath, config);
+  if (changes.length > 0) {
+    writeAngularJson(ctx.projectPath, config, ctx.files);
   }
 
   return changes;
@@ -144,16 +144,14 @@ export function renameBrowserTargetToBuildTarget(ctx: MigrationContext): Change[
  * Remove deprecated `defaultProject` field from workspace root (removed in Angular 17).
  */
 export function removeDefaultProject(ctx: MigrationContext): Change[] {
-  const config = readAngularJson(ctx.projectPath);
+  const config = readAngularJson(ctx.projectPath, ctx.files);
   if (!config) return [];
 
   if (!('defaultProject' in config)) return [];
 
   delete config['defaultProject'];
 
-  if (!ctx.dryRun) {
-    writeAngularJson(ctx.projectPath, config);
-  }
+  writeAngularJson(ctx.projectPath, config, ctx.files);
 
   return [{
     file: 'angular.json',
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Warning } from '../types';
+import { JOURNAL_DIR, hashContent } from './journal';
+
+/** Entries written by another version of the tool are discarded on load */
+export const TOOL_VERSION: string = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf-8')
+).version;
+
+// Bumped when the shape of cached warnings changes within one tool version
+const CACHE_FORMAT = 2;
+
+/** A detector warning without its file, so identical files share one entry */
+export type CachedWarning = Omit<Warning, 'file'>;
+
+interface CacheData {
+  version: string;
+  format?: number;
+  /** `${ruleId}:${contentHash}` → warnings the rule reported for that content */
+  entries: Record<string, CachedWarning[]>;
+}
+
+function cachePath(projectPath: string): string {
+  return path.join(projectPath, JOURNAL_DIR, 'cache', 'analysis.json');
+}
+
+/**
+ * Results of detect-only AST rules, keyed by file content hash, rule id and
+ * tool version and stored in .ng-migrate/cache, so re-runs only analyse files
+ * that changed since the previous run.
+ */
+export class AnalysisCache {
+  private entries: Record<string, CachedWarning[]>;
+  private readonly used = new Set<string>();
+  private readonly rulesRun = new Set<string>();
+  private dirty = false;
+
+  private constructor(private readonly projectPath: string, entries: Record<string, CachedWarning[]>) {
+    this.entries = entries;
+  }
+
+  static load(projectPath: string): AnalysisCache {
+    const filePath = cachePath(projectPath);
+    let entries: Record<string, CachedWarning[]> = {};
+    if (fs.existsSync(filePath)) {
+      try {
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheData;
+        if (data.version === TOOL_VERSION && data.format === CACHE_FORMAT) entries = data.entries;
+      } catch {
+        // A corrupt cache is only a missed speed-up — start from scratch
+      }
+    }
+    return new AnalysisCache(projectPath, entries);
+  }
+
+  hash(content: string): string {
+    return hashContent(content);
+  }
+
+  get(ruleId: string, contentHash: string): CachedWarning[] | undefined {
+    const key = `${ruleId}:${contentHash}`;
+    this.rulesRun.add(ruleId);
+    const hit = this.entries[key];
+    if (hit) this.used.add(key);
+    return hit;
+  }
+
+  set(ruleId: string, contentHash: string, warnings: CachedWarning[]): void {
+    const key = `${ruleId}:${contentHash}`;
+    this.rulesRun.add(ruleId);
+    this.entries[key] = warnings;
+    this.used.add(key);
+    this.dirty = true;
+  }
+
+  /**
+   * Write the cache back. Entries of rules that ran but were not hit belong to
+   * content that no longer exists and are dropped; other rules keep theirs.
+   */
+  save(): void {
+    const kept: Record<string, CachedWarning[]> = {};
+    for (const [key, warnings] of Object.entries(this.entries)) {
+      const ruleId = key.slice(0, key.lastIndexOf(':'));
+      if (this.used.has(key) || !this.rulesRun.has(ruleId)) {
+        kept[key] = warnings;
+      } else {
+        this.dirty = true;
+      }
+    }
+    if (!this.dirty) return;
+
+    const filePath = cachePath(this.projectPath);
+    const data: CacheData = { version: TOOL_VERSION, format: CACHE_FORMAT, entries: kept };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data) + '\n', 'utf-8');
+    this.entries = kept;
+    this.dirty = false;
+  }
+}
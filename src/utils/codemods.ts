@@ -1,6 +1,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import {
+  ImportDeclaration,
   Project,
   SourceFile,
   SyntaxKind,
@@ -8,8 +9,12 @@ import {
 } from 'ts-morph';
 import { globSync } from 'glob';
 import { Change, Warning, MigrationContext } from '../types';
+import { ProjectFiles } from './files';
+import { MigratorConfig, getSourceGlobs } from './config';
+import { defineAstRule } from './rule-engine';
+import { nodeLocation } from './location';
 
-export function createTsProject(projectPath: string): Project {
+export function createTsProject(projectPath: string, files?: ProjectFiles, config: MigratorConfig = {}): Project {
   const tsConfigPath = path.join(projectPath, 'tsconfig.json');
   const tsConfigAppPath = path.join(projectPath, 'tsconfig.app.json');
 
@@ -23,16 +28,76 @@ export function createTsProject(projectPath: string): Project {
 
   // Always add ALL .ts files explicitly — tsconfig may exclude barrel files,
   // shared modules, or files outside src/ that still need to be migrated.
-  const tsFiles = globSync('**/*.ts', {
+  const { include, exclude } = getSourceGlobs(config);
+  const tsFiles = globSync(include, {
     cwd: projectPath,
-    ignore: ['node_modules/**', 'dist/**'],
+    ignore: exclude,
     absolute: true,
   });
   project.addSourceFilesAtPaths(tsFiles);
+  // Files pulled in by tsconfig only are parsed for types but not migrated
+  migratableFiles.set(project, new Set(tsFiles.map(f => project.getSourceFile(f)?.getFilePath() ?? f)));
+
+  // Files already rewritten by an earlier step (only in memory during dry-run)
+  // must be parsed from their new contents, not from disk.
+  for (const filePath of files?.getWrittenPaths() ?? []) {
+    const sf = project.getSourceFile(filePath);
+    if (sf) {
+      sf.replaceWithText(files!.read(filePath));
+    }
+  }
+
+  for (const sf of project.getSourceFiles()) {
+    savedText.set(sf, sf.getFullText());
+  }
 
   return project;
 }
 
+const migratableFiles = new WeakMap<Project, Set<string>>();
+
+// Text of each source file as last read from / written to ProjectFiles.
+// Codemods only edit the AST; saveSourceFiles() persists whatever differs.
+const savedText = new WeakMap<SourceFile, string>();
+
+/**
+ * Write every source file modified since the last save through `files`
+ * (kept in memory on dry-run). Called once at the end of each step.
+ */
+export function saveSourceFiles(project: Project, files: ProjectFiles): number {
+  let saved = 0;
+  for (const sf of project.getSourceFiles()) {
+    const text = sf.getFullText();
+    const previous = savedText.get(sf);
+    savedText.set(sf, text);
+    // Files pulled in later by module resolution have no baseline and are never edited
+    if (previous === undefined || previous === text) continue;
+
+    files.write(sf.getFilePath(), text);
+    saved++;
+  }
+  return saved;
+}
+
+/**
+ * Drop unsaved AST edits and re-read the given paths from `files`, e.g. after
+ * a rollback restored them. Files that no longer exist are removed.
+ */
+export function reloadSourceFiles(project: Project, files: ProjectFiles, filePaths: string[]): void {
+  const reload = new Set(filePaths.map(p => path.resolve(p)));
+  for (const sf of project.getSourceFiles()) {
+    const filePath = path.resolve(sf.getFilePath());
+    if (!reload.has(filePath) && sf.getFullText() === savedText.get(sf)) continue;
+
+    if (!files.exists(filePath)) {
+      project.removeSourceFile(sf);
+      continue;
+    }
+    sf.replaceWithText(files.read(filePath));
+    savedText.set(sf, sf.getFullText());
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Import transformations
 // ---------------------------------------------------------------------------
@@ -83,10 +148,6 @@ export function renameNamedImport(
         file: sf.getFilePath(),
         description: `${oldName} → ${newName} (import from '${moduleName}')`,
       });
-
-      if (!ctx.dryRun) {
-        sf.saveSync();
-      }
     }
   }
 
@@ -139,10 +200,6 @@ export function moveImport(
       file: sf.getFilePath(),
       description: `${symbolName}: '${fromModule}' → '${toModule}'`,
     });
-
-    if (!ctx.dryRun) {
-      sf.saveSync();
-    }
   }
 
   return changes;
@@ -167,6 +224,11 @@ export function removeObsoleteImport(
 
     if (!imp) continue;
 
+    // Point the warning at the first usage, or at the import if there is none
+    const usage = sf.getDescendantsOfKind(SyntaxKind.Identifier)
+      .find(id => id.getText() === symbolName && !id.getFirstAncestorByKind(SyntaxKind.ImportDeclaration));
+    const location = nodeLocation(usage ?? imp);
+
     const namedImports = imp.getNamedImports();
     if (namedImports.length === 1) {
       imp.remove();
@@ -181,11 +243,8 @@ export function removeObsoleteImport(
     warnings.push({
       file: sf.getFilePath(),
       message: `'${symbolName}' was removed from '${moduleName}'. Check usages manually.`,
+      ...location,
     });
-
-    if (!ctx.dryRun) {
-      sf.saveSync();
-    }
   }
 
   return { changes, warnings };
@@ -209,8 +268,6 @@ export function removeFromNgModuleArrays(
   const changes: Change[] = [];
 
   for (const sf of sourceFiles) {
-    let fileChanged = false;
-
     sf.getClasses().forEach(cls => {
       cls.getDecorators().forEach(dec => {
         if (dec.getName() !== 'NgModule' && dec.getName() !== 'Component') return;
@@ -234,7 +291,6 @@ export function removeFromNgModuleArrays(
             // Match plain identifier: BrowserTransferStateModule
             if (Node.isIdentifier(el) && el.getText() === symbolName) {
               initializer.removeElement(el);
-              fileChanged = true;
               changes.push({
                 file: sf.getFilePath(),
                 description: `Removed '${symbolName}' from @${dec.getName()} ${arrayProp}[]`,
@@ -245,10 +301,6 @@ export function removeFromNgModuleArrays(
         }
       });
     });
-
-    if (fileChanged && !ctx.dryRun) {
-      sf.saveSync();
-    }
   }
 
   return changes;
@@ -260,7 +312,7 @@ export function removeFromNgModuleArrays(
 
 /**
  * Remove ComponentFactoryResolver from constructor parameters and class fields.
- * Also migrates ViewContainerRef.createComponent(factory) calls.
+ * Also migrates ViewContainerRef.createComponent(factory) calls. Run via runAstRules().
  *
  * Before:
  *   constructor(private resolver: ComponentFactoryResolver) {}
@@ -270,130 +322,96 @@ export function removeFromNgModuleArrays(
  * After:
  *   vcr.createComponent(MyComponent);
  */
-export function migrateComponentFactoryResolver(
-  sourceFiles: SourceFile[],
-  ctx: MigrationContext
-): { changes: Change[]; warnings: Warning[] } {
-  const changes: Change[] = [];
-  const warnings: Warning[] = [];
-
-  for (const sf of sourceFiles) {
-    let fileChanged = false;
-
+export const componentFactoryResolverRule = defineAstRule({
+  id: 'component-factory-resolver',
+  visitors: {
     // 1. Remove ComponentFactoryResolver constructor parameters
-    sf.getClasses().forEach(cls => {
-      cls.getConstructors().forEach(ctor => {
-        const params = ctor.getParameters();
-        params.forEach(param => {
-          const typeNode = param.getTypeNode();
-          if (typeNode?.getText() === 'ComponentFactoryResolver') {
-            param.remove();
-            fileChanged = true;
-            warnings.push({
-              file: sf.getFilePath(),
-              message: `Removed ComponentFactoryResolver constructor param in ${cls.getName() ?? 'anonymous'}. Verify resolveComponentFactory() usages are migrated.`,
-            });
-          }
-        });
-      });
-
-      // 2. Remove class fields typed as ComponentFactoryResolver
-      cls.getProperties().forEach(prop => {
-        const typeNode = prop.getTypeNode();
-        if (typeNode?.getText() === 'ComponentFactoryResolver') {
-          prop.remove();
-          fileChanged = true;
-        }
-      });
-    });
-
-    // 3. Migrate vcr.createComponent(factory) → vcr.createComponent(ComponentType)
-    // Find: someVar.resolveComponentFactory(X) calls
-    sf.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+    [SyntaxKind.Parameter]: (param, file) => {
+      if (param.getTypeNode()?.getText() !== 'ComponentFactoryResolver') return;
+      const ctor = param.getParent();
+      if (!Node.isConstructorDeclaration(ctor)) return;
+
+      const cls = ctor.getParent();
+      const className = Node.isClassDeclaration(cls) ? cls.getName() ?? 'anonymous' : 'anonymous';
+      file.edit(() => param.remove());
+      file.addWarning(`Removed ComponentFactoryResolver constructor param in ${className}. Verify resolveComponentFactory() usages are migrated.`, param);
+    },
+
+    // 2. Remove class fields typed as ComponentFactoryResolver
+    [SyntaxKind.PropertyDeclaration]: (prop, file) => {
+      if (prop.getTypeNode()?.getText() !== 'ComponentFactoryResolver') return;
+      file.edit(() => prop.remove());
+    },
+
+    [SyntaxKind.CallExpression]: (call, file) => {
       const expr = call.getExpression();
       if (!Node.isPropertyAccessExpression(expr)) return;
-      if (expr.getName() !== 'resolveComponentFactory') return;
-
       const args = call.getArguments();
-      if (args.length !== 1) return;
-
-      const componentTypeText = args[0].getText();
 
-      // Replace the entire resolveComponentFactory(X) call with just X
-      // We need to find where this factory variable is used in createComponent
-      warnings.push({
-        file: sf.getFilePath(),
-        message: `Found resolveComponentFactory(${componentTypeText}) — replace vcr.createComponent(factory) with vcr.createComponent(${componentTypeText}) manually or check auto-migration below.`,
-      });
-    });
+      // 3. Find: someVar.resolveComponentFactory(X) calls
+      if (expr.getName() === 'resolveComponentFactory') {
+        if (args.length !== 1) return;
+        const componentTypeText = args[0].getText();
+        file.addWarning(`Found resolveComponentFactory(${componentTypeText}) — replace vcr.createComponent(factory) with vcr.createComponent(${componentTypeText}) manually or check auto-migration below.`, call);
+        return;
+      }
 
-    // 4. Migrate createComponent(factory, ...) where factory was resolved
-    // This is a heuristic: if createComponent is called with a variable (not a type reference),
-    // we warn. If called with a result of resolveComponentFactory directly, we fix.
-    sf.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
-      const expr = call.getExpression();
-      if (!Node.isPropertyAccessExpression(expr)) return;
-      if (expr.getName() !== 'createComponent') return;
-
-      const args = call.getArguments();
-      if (args.length === 0) return;
+      // 4. Migrate createComponent(factory, ...) where factory was resolved
+      // This is a heuristic: if createComponent is called with a variable (not a type reference),
+      // we warn. If called with a result of resolveComponentFactory directly, we fix.
+      if (expr.getName() !== 'createComponent' || args.length === 0) return;
 
       const firstArg = args[0];
       // If first arg is a call to resolveComponentFactory(X), inline X
-      if (Node.isCallExpression(firstArg)) {
-        const innerExpr = firstArg.getExpression();
-        if (Node.isPropertyAccessExpression(innerExpr) &&
-          innerExpr.getName() === 'resolveComponentFactory') {
-          const innerArgs = firstArg.getArguments();
-          if (innerArgs.length === 1) {
-            firstArg.replaceWithText(innerArgs[0].getText());
-            fileChanged = true;
-            changes.push({
-              file: sf.getFilePath(),
-              description: `createComponent(resolver.resolveComponentFactory(X)) → createComponent(X)`,
-            });
-          }
-        }
-      }
-    });
-
-    if (fileChanged && !ctx.dryRun) {
-      sf.saveSync();
-    }
-  }
-
-  return { changes, warnings };
-}
+      if (!Node.isCallExpression(firstArg)) return;
+      const innerExpr = firstArg.getExpression();
+      if (!Node.isPropertyAccessExpression(innerExpr) || innerExpr.getName() !== 'resolveComponentFactory') return;
+      const innerArgs = firstArg.getArguments();
+      if (innerArgs.length !== 1) return;
+
+      const componentTypeText = innerArgs[0].getText();
+      file.edit(() => firstArg.replaceWithText(componentTypeText));
+      file.addChange(`createComponent(resolver.resolveComponentFactory(X)) → createComponent(X)`);
+    },
+  },
+});
 
 // ---------------------------------------------------------------------------
 // CanLoad → CanMatch (v16 → v17)
 // ---------------------------------------------------------------------------
 
+/**
+ * CanLoad guards → CanMatch: the CanLoad import and type references, the
+ * canLoad() method of classes that implemented it (renamed with its call
+ * sites; the route and segments parameters stay as they are) and canLoad
+ * properties of route objects. Classes and routes that already have canMatch
+ * are flagged instead, since the two guards have to be merged by hand.
+ */
 export function migrateCanLoadToCanMatch(
   sourceFiles: SourceFile[],
   ctx: MigrationContext
-): Change[] {
+): { changes: Change[]; warnings: Warning[] } {
   const changes: Change[] = [];
+  const warnings: Warning[] = [];
 
   for (const sf of sourceFiles) {
     const imp = sf.getImportDeclarations()
       .find(d => d.getModuleSpecifierValue() === '@angular/router' &&
         d.getNamedImports().some(ni => ni.getName() === 'CanLoad'));
 
-    if (!imp) continue;
+    if (imp) {
+      // Classes implementing CanLoad, found before the rename below
+      const guards = sf.getClasses().filter(cls =>
+        cls.getImplements().some(i => i.getExpression().getText() === 'CanLoad')
+      );
 
-    let fileChanged = false;
+      // Replace CanLoad → CanMatch in import
+      const hasCanMatch = imp.getNamedImports().some(ni => ni.getName() === 'CanMatch');
+      imp.getNamedImports()
+        .filter(ni => ni.getName() === 'CanLoad')
+        .forEach(ni => (hasCanMatch ? ni.remove() : ni.setName('CanMatch')));
 
-    // Replace CanLoad → CanMatch in import
-    imp.getNamedImports()
-      .filter(ni => ni.getName() === 'CanLoad')
-      .forEach(ni => {
-        ni.setName('CanMatch');
-        fileChanged = true;
-      });
-
-    // Replace CanLoad → CanMatch in implements clause and type usage
-    if (fileChanged) {
+      // Replace CanLoad → CanMatch in implements clause and type usage
       sf.getDescendantsOfKind(SyntaxKind.Identifier)
         .filter(id => id.getText() === 'CanLoad')
         .filter(id => !Node.isImportSpecifier(id.getParent()))
@@ -404,13 +422,59 @@ export function migrateCanLoadToCanMatch(
         description: 'CanLoad → CanMatch (removed in Angular 17)',
       });
 
-      if (!ctx.dryRun) {
-        sf.saveSync();
+      for (const cls of guards) {
+        // A class implementing both now lists CanMatch twice
+        const duplicates = cls.getImplements().filter(i => i.getText() === 'CanMatch').slice(1);
+        duplicates.reverse().forEach(i => cls.removeImplements(i));
+
+        const canLoad = cls.getMethod('canLoad');
+        if (!canLoad) continue;
+        const name = cls.getName() ?? '(anonymous class)';
+        if (cls.getMethod('canMatch')) {
+          warnings.push({
+            file: sf.getFilePath(),
+            message: `${name} implements CanMatch and already has canMatch(): merge canLoad() into it and remove canLoad().`,
+            severity: 'error',
+            ...nodeLocation(canLoad.getNameNode()),
+          });
+          continue;
+        }
+        // Through the language service, so guard.canLoad(...) calls in specs follow
+        canLoad.rename('canMatch');
+        changes.push({
+          file: sf.getFilePath(),
+          description: `${name}.canLoad() → canMatch()`,
+        });
       }
     }
+
+    // Route objects: { path: 'admin', loadChildren: ..., canLoad: [AuthGuard] }
+    const routeProps = sf.getDescendantsOfKind(SyntaxKind.PropertyAssignment).filter(prop => {
+      if (prop.getName() !== 'canLoad') return false;
+      const route = prop.getParent();
+      return Node.isObjectLiteralExpression(route) &&
+        (route.getProperty('loadChildren') !== undefined || route.getProperty('path') !== undefined);
+    });
+    for (const prop of routeProps) {
+      const route = prop.getParentIfKindOrThrow(SyntaxKind.ObjectLiteralExpression);
+      if (route.getProperty('canMatch')) {
+        warnings.push({
+          file: sf.getFilePath(),
+          message: `Route has both canLoad and canMatch: move the canLoad guards into canMatch.`,
+          severity: 'error',
+          ...nodeLocation(prop),
+        });
+        continue;
+      }
+      prop.getNameNode().replaceWithText('canMatch');
+      changes.push({
+        file: sf.getFilePath(),
+        description: 'Route canLoad → canMatch (runs on every navigation, not only before the lazy load)',
+      });
+    }
   }
 
-  return changes;
+  return { changes, warnings };
 }
 
 // ---------------------------------------------------------------------------
@@ -423,17 +487,13 @@ export function migrateCanLoadToCanMatch(
  *
  * Before: imports: [BrowserModule.withServerTransition({ appId: 'my-app' })]
  * After:  imports: [BrowserModule]
+ *
+ * Run via runAstRules().
  */
-export function removeBrowserModuleWithServerTransition(
-  sourceFiles: SourceFile[],
-  ctx: MigrationContext
-): Change[] {
-  const changes: Change[] = [];
-
-  for (const sf of sourceFiles) {
-    let fileChanged = false;
-
-    sf.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+export const browserModuleWithServerTransitionRule = defineAstRule({
+  id: 'browser-module-with-server-transition',
+  visitors: {
+    [SyntaxKind.CallExpression]: (call, file) => {
       const expr = call.getExpression();
       if (!Node.isPropertyAccessExpression(expr)) return;
       if (expr.getName() !== 'withServerTransition') return;
@@ -442,46 +502,32 @@ export function removeBrowserModuleWithServerTransition(
       if (obj.getText() !== 'BrowserModule') return;
 
       // Replace BrowserModule.withServerTransition({...}) → BrowserModule
-      call.replaceWithText('BrowserModule');
-      fileChanged = true;
-
-      changes.push({
-        file: sf.getFilePath(),
-        description: 'BrowserModule.withServerTransition() → BrowserModule (removed in Angular 18)',
-      });
-    });
-
-    if (fileChanged && !ctx.dryRun) {
-      sf.saveSync();
-    }
-  }
-
-  return changes;
-}
+      file.edit(() => call.replaceWithText('BrowserModule'));
+      file.addChange('BrowserModule.withServerTransition() → BrowserModule (removed in Angular 18)');
+      // Located at the call as written, before the edit replaces it
+      file.addWarning(
+        `BrowserModule.withServerTransition() removed. Replaced with BrowserModule. If you need a stable app ID for SSR, add: { provide: APP_ID, useValue: 'my-app' } to providers.`,
+        call
+      );
+    },
+  },
+});
 
 // ---------------------------------------------------------------------------
 // ModuleWithProviders<T> — ensure generic is present (v13+, strict in v15)
 // ---------------------------------------------------------------------------
 
-export function ensureModuleWithProvidersGeneric(
-  sourceFiles: SourceFile[],
-  ctx: MigrationContext
-): { changes: Change[]; warnings: Warning[] } {
-  const warnings: Warning[] = [];
-
-  for (const sf of sourceFiles) {
-    sf.getDescendantsOfKind(SyntaxKind.TypeReference).forEach(ref => {
+export const moduleWithProvidersGenericRule = defineAstRule({
+  id: 'module-with-providers-generic',
+  detectOnly: true,
+  visitors: {
+    [SyntaxKind.TypeReference]: (ref, file) => {
       if (ref.getText() === 'ModuleWithProviders' && ref.getTypeArguments().length === 0) {
-        warnings.push({
-          file: sf.getFilePath(),
-          message: 'ModuleWithProviders is missing a generic type parameter. Add ModuleWithProviders<YourModule>',
-        });
+        file.addWarning('ModuleWithProviders is missing a generic type parameter. Add ModuleWithProviders<YourModule>', ref);
       }
-    });
-  }
-
-  return { changes: [], warnings };
-}
+    },
+  },
+});
 
 // ---------------------------------------------------------------------------
 // standalone: false migration (v18 → v19)
@@ -570,15 +616,12 @@ export function addStandaloneFalse(
     if (ops.length > 0) {
       // Apply in reverse order so earlier positions stay valid
       ops.sort((a, b) => b.start - a.start);
-      if (!ctx.dryRun) {
-        for (const op of ops) {
-          if (op.start === op.end) {
-            sf.insertText(op.start, op.text);
-          } else {
-            sf.replaceText([op.start, op.end], op.text);
-          }
+      for (const op of ops) {
+        if (op.start === op.end) {
+          sf.insertText(op.start, op.text);
+        } else {
+          sf.replaceText([op.start, op.end], op.text);
         }
-        sf.saveSync();
       }
       for (const op of ops) {
         changes.push({ file: sf.getFilePath(), description: op.description });
@@ -614,7 +657,7 @@ export function fixZoneJsImports(
   // Typical files that contain zone.js imports
   const candidates = globSync('**/{polyfills,test,setup-jest,jest-setup,test-setup}.ts', {
     cwd: projectPath,
-    ignore: ['node_modules/**', 'dist/**'],
+    ignore: getSourceGlobs(ctx.config).exclude,
     absolute: true,
   });
 
@@ -628,7 +671,7 @@ export function fixZoneJsImports(
   ];
 
   for (const filePath of candidates) {
-    let content = fs.readFileSync(filePath, 'utf-8');
+    let content = ctx.project.getSourceFile(filePath)?.getFullText() ?? ctx.files.read(filePath);
     let changed = false;
 
     for (const [pattern, replacement] of replacements) {
@@ -640,8 +683,13 @@ export function fixZoneJsImports(
     }
 
     if (changed) {
-      if (!ctx.dryRun) {
-        fs.writeFileSync(filePath, content, 'utf-8');
+      // Edit through the shared project when the file is part of it, so later
+      // codemods see the new text and it is saved with the rest of the step
+      const sf = ctx.project.getSourceFile(filePath);
+      if (sf) {
+        sf.replaceWithText(content);
+      } else {
+        ctx.files.write(filePath, content);
       }
       changes.push({
         file: filePath,
@@ -677,13 +725,234 @@ export function migrateAsyncToWaitForAsync(
   );
 }
 
+// ---------------------------------------------------------------------------
+// DATE_PIPE_DEFAULT_TIMEZONE → DATE_PIPE_DEFAULT_OPTIONS (v14 → v15)
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace the deprecated DATE_PIPE_DEFAULT_TIMEZONE token with
+ * DATE_PIPE_DEFAULT_OPTIONS, wrapping provider values in `{ timezone }`.
+ *
+ * Before: { provide: DATE_PIPE_DEFAULT_TIMEZONE, useValue: '+0100' }
+ * After:  { provide: DATE_PIPE_DEFAULT_OPTIONS, useValue: { timezone: '+0100' } }
+ *
+ * Other usages (inject(), useFactory, useExisting) are renamed too but get a
+ * warning: the token's value is now an options object, not a string.
+ */
+export function migrateDatePipeDefaultTimezone(
+  sourceFiles: SourceFile[],
+  ctx: MigrationContext
+): { changes: Change[]; warnings: Warning[] } {
+  const changes: Change[] = [];
+  const warnings: Warning[] = [];
+  const oldName = 'DATE_PIPE_DEFAULT_TIMEZONE';
+  const newName = 'DATE_PIPE_DEFAULT_OPTIONS';
+
+  for (const sf of sourceFiles) {
+    const imp = sf.getImportDeclarations()
+      .find(d => d.getModuleSpecifierValue() === '@angular/common' &&
+        d.getNamedImports().some(ni => ni.getName() === oldName));
+
+    if (!imp) continue;
+
+    const specifier = imp.getNamedImports().find(ni => ni.getName() === oldName)!;
+    const localName = specifier.getAliasNode()?.getText() ?? oldName;
+    const usages = sf.getDescendantsOfKind(SyntaxKind.Identifier)
+      .filter(id => id.getText() === localName && !id.getFirstAncestorByKind(SyntaxKind.ImportDeclaration));
+
+    const useValues: Node[] = [];
+    for (const usage of usages) {
+      const prop = usage.getParent();
+      const provider = prop?.getParent();
+      const useValue = Node.isPropertyAssignment(prop) && prop.getName() === 'provide' && Node.isObjectLiteralExpression(provider)
+        ? provider.getProperty('useValue')
+        : undefined;
+      if (Node.isPropertyAssignment(useValue) && useValue.getInitializer()) {
+        useValues.push(useValue.getInitializer()!);
+        continue;
+      }
+      warnings.push({
+        file: sf.getFilePath(),
+        message: `${oldName} is replaced by ${newName}, whose value is { timezone, dateFormat } instead of a timezone string. Update this usage.`,
+        ...nodeLocation(usage),
+      });
+    }
+
+    for (const value of useValues) {
+      value.replaceWithText(`{ timezone: ${value.getText()} }`);
+    }
+
+    // Aliased imports keep their local name; otherwise rename the usages as well
+    const alreadyImported = imp.getNamedImports().some(ni => ni.getName() === newName);
+    if (alreadyImported && localName === oldName) {
+      specifier.remove();
+    } else {
+      specifier.setName(newName);
+    }
+    if (localName === oldName) {
+      sf.getDescendantsOfKind(SyntaxKind.Identifier)
+        .filter(id => id.getText() === oldName && !Node.isImportSpecifier(id.getParent()))
+        .forEach(id => id.replaceWithText(newName));
+    }
+
+    changes.push({
+      file: sf.getFilePath(),
+      description: `${oldName} → ${newName} (timezone moved into { timezone })`,
+    });
+  }
+
+  return { changes, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// relativeLinkResolution (v14 → v15)
+// ---------------------------------------------------------------------------
+
+/**
+ * Remove the `relativeLinkResolution` router option, removed in Angular 15,
+ * from RouterModule.forRoot() options and from ExtraOptions objects. Run via
+ * runAstRules().
+ *
+ * Before: RouterModule.forRoot(routes, { relativeLinkResolution: 'legacy' })
+ * After:  RouterModule.forRoot(routes)
+ */
+export const relativeLinkResolutionRule = defineAstRule({
+  id: 'relative-link-resolution',
+  visitors: {
+    [SyntaxKind.PropertyAssignment]: (prop, file) => {
+      if (prop.getName() !== 'relativeLinkResolution') return;
+      const options = prop.getParent();
+      if (!Node.isObjectLiteralExpression(options)) return;
+
+      const owner = options.getParent();
+      const isForRootOptions = Node.isCallExpression(owner) &&
+        owner.getExpression().getText() === 'RouterModule.forRoot' &&
+        owner.getArguments()[1] === options;
+      const isExtraOptions = Node.isVariableDeclaration(owner) && owner.getTypeNode()?.getText() === 'ExtraOptions';
+      if (!isForRootOptions && !isExtraOptions) return;
+
+      if (prop.getInitializer()?.getText().includes('legacy')) {
+        file.addWarning(`relativeLinkResolution: 'legacy' was removed in Angular 15. Relative links in components under empty-path routes now resolve from the empty-path route ('corrected'); check routerLink values and router.navigate({ relativeTo }) calls there.`, prop);
+      }
+      file.edit(() => {
+        if (isForRootOptions && options.getProperties().length === 1) {
+          owner.removeArgument(options);
+        } else {
+          prop.remove();
+        }
+      });
+      file.addChange('Removed relativeLinkResolution from the router options (removed in Angular 15)');
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Angular Material MDC switch: MatLegacy* aliases (v14 → v15)
+// ---------------------------------------------------------------------------
+
+/** Material entry points that moved to MDC in v15 and kept a legacy-* copy until v17 */
+const MATERIAL_LEGACY_ENTRY_POINTS = [
+  'autocomplete', 'button', 'card', 'checkbox', 'chips', 'dialog', 'form-field', 'input', 'list', 'menu',
+  'paginator', 'progress-bar', 'progress-spinner', 'radio', 'select', 'slide-toggle', 'slider',
+  'snack-bar', 'table', 'tabs', 'tooltip',
+];
+
+/** MatButtonModule → MatLegacyButtonModule, MAT_DIALOG_DATA → MAT_LEGACY_DIALOG_DATA, TooltipPosition → LegacyTooltipPosition */
+function legacyMaterialName(name: string): string {
+  if (name.startsWith('MAT_')) return `MAT_LEGACY_${name.slice(4)}`;
+  if (/^Mat[A-Z]/.test(name)) return `MatLegacy${name.slice(3)}`;
+  if (/^mat[A-Z]/.test(name)) return `matLegacy${name.slice(3)}`;
+  return `Legacy${name}`;
+}
+
+/**
+ * Point imports of the components rebuilt on MDC in Material 15 at their
+ * legacy-* entry points, aliased to the old names, so the app keeps its
+ * current look until it is migrated with `ng generate @angular/material:mdc-migration`.
+ *
+ * Before: import { MatButtonModule } from '@angular/material/button';
+ * After:  import { MatLegacyButtonModule as MatButtonModule } from '@angular/material/legacy-button';
+ */
+export function migrateMaterialLegacyImports(
+  sourceFiles: SourceFile[],
+  ctx: MigrationContext
+): { changes: Change[]; warnings: Warning[] } {
+  const changes: Change[] = [];
+  const warnings: Warning[] = [];
+
+  for (const sf of sourceFiles) {
+    const imports = findMdcMaterialImports(sf);
+    if (imports.length === 0) continue;
+    const entryPoints = imports.map(i => i.entryPoint);
+    const firstImport = imports[0].declaration;
+
+    for (const { declaration, entryPoint } of imports) {
+      for (const ni of declaration.getNamedImports()) {
+        const localName = ni.getAliasNode()?.getText() ?? ni.getName();
+        ni.replaceWithText(`${legacyMaterialName(ni.getName())} as ${localName}`);
+      }
+      declaration.setModuleSpecifier(`@angular/material/legacy-${entryPoint}`);
+    }
+
+    changes.push({
+      file: sf.getFilePath(),
+      description: `Material ${entryPoints.join(', ')} → legacy-* entry points (MatLegacy* aliases)`,
+    });
+    warnings.push({
+      file: sf.getFilePath(),
+      message: `Angular Material 15 rebuilt ${entryPoints.join(', ')} on MDC. These imports now use the legacy (non-MDC) components so nothing changes visually, but the legacy entry points are removed in Angular Material 17: run ng generate @angular/material:mdc-migration and review custom styles before upgrading past 16.`,
+      ...nodeLocation(firstImport),
+    });
+  }
+
+  return { changes, warnings };
+}
+
+/**
+ * For runs that end past Material 16, where the legacy-* entry points are
+ * gone: leave the imports on the MDC components and flag every file that
+ * uses them, since their DOM, styles and density change.
+ */
+export function flagMaterialMdcImports(sourceFiles: SourceFile[], targetVersion: number): Warning[] {
+  const warnings: Warning[] = [];
+
+  for (const sf of sourceFiles) {
+    const imports = findMdcMaterialImports(sf);
+    if (imports.length === 0) continue;
+
+    warnings.push({
+      file: sf.getFilePath(),
+      message: `Angular Material 15 rebuilt ${imports.map(i => i.entryPoint).join(', ')} on MDC. This run continues to Angular ${targetVersion}, where the legacy (non-MDC) entry points no longer exist, so these imports stay on the MDC components: DOM, styles and density change. Review the templates and custom styles, or migrate to Angular 16 first (--to 16) and run ng generate @angular/material:mdc-migration before upgrading further.`,
+      category: 'manual-fix',
+      ...nodeLocation(imports[0].declaration),
+    });
+  }
+
+  return warnings;
+}
+
+/** Named imports from the Material entry points that switched to MDC in v15 */
+function findMdcMaterialImports(sf: SourceFile): Array<{ declaration: ImportDeclaration; entryPoint: string }> {
+  const found: Array<{ declaration: ImportDeclaration; entryPoint: string }> = [];
+  for (const imp of sf.getImportDeclarations()) {
+    const match = /^@angular\/material\/([\w-]+)$/.exec(imp.getModuleSpecifierValue());
+    if (!match || !MATERIAL_LEGACY_ENTRY_POINTS.includes(match[1])) continue;
+    // Namespace imports would need every member access renamed
+    if (imp.getNamespaceImport() || imp.getNamedImports().length === 0) continue;
+    found.push({ declaration: imp, entryPoint: match[1] });
+  }
+  return found;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
 export function getSourceFiles(project: Project, projectPath: string): SourceFile[] {
+  const migratable = migratableFiles.get(project);
   return project.getSourceFiles().filter(sf => {
     const fp = sf.getFilePath();
+    if (migratable) return migratable.has(fp);
     return !fp.includes('node_modules') && !fp.includes('/dist/');
   });
 }
@@ -723,25 +992,21 @@ export function removeDominoSetup(
 
     const filePath = sf.getFilePath();
 
-    if (!ctx.dryRun) {
-      // 1. Remove the import via ts-morph AST
-      dominoImport.remove();
-      sf.saveSync();
-
-      // 2. Remove domino setup lines with text manipulation
-      const fileText = fs.readFileSync(filePath, 'utf-8');
-      const filteredLines = fileText.split('\n').filter(line => {
-        const t = line.trim();
-        // const win = domino.createWindow(...)
-        if (t.includes(`${dominoName}.createWindow(`)) return false;
-        // global['window'] = ... / global["window"] = ... / (global as any)['window'] = ...
-        if (t.includes('global') && (t.includes("['window']") || t.includes('["window"]'))) return false;
-        // global['document'] = ... / global["document"] = ...
-        if (t.includes('global') && (t.includes("['document']") || t.includes('["document"]'))) return false;
-        return true;
-      });
-      fs.writeFileSync(filePath, filteredLines.join('\n'), 'utf-8');
-    }
+    // 1. Remove the import via ts-morph AST
+    dominoImport.remove();
+
+    // 2. Remove domino setup lines with text manipulation
+    const filteredLines = sf.getFullText().split('\n').filter(line => {
+      const t = line.trim();
+      // const win = domino.createWindow(...)
+      if (t.includes(`${dominoName}.createWindow(`)) return false;
+      // global['window'] = ... / global["window"] = ... / (global as any)['window'] = ...
+      if (t.includes('global') && (t.includes("['window']") || t.includes('["window"]'))) return false;
+      // global['document'] = ... / global["document"] = ...
+      if (t.includes('global') && (t.includes("['document']") || t.includes('["document"]'))) return false;
+      return true;
+    });
+    sf.replaceWithText(filteredLines.join('\n'));
 
     changes.push({
       file: filePath,
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Where GitHub and GitLab look for the file, relative to the repository root */
+const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+
+interface OwnerRule {
+  pattern: RegExp;
+  owners: string[];
+}
+
+export interface CodeOwners {
+  /** The CODEOWNERS file that was read */
+  file: string;
+  /** Owners of a file (absolute path); the last matching rule wins, as on GitHub */
+  ownersOf(filePath: string): string[];
+}
+
+/**
+ * Find CODEOWNERS for a project: in the project itself or in the enclosing
+ * repository (monorepos keep it at the root, next to .git). Returns null
+ * when there is none.
+ */
+export function loadCodeOwners(projectPath: string): CodeOwners | null {
+  for (let dir = path.resolve(projectPath); ; dir = path.dirname(dir)) {
+    for (const location of CODEOWNERS_LOCATIONS) {
+      const file = path.join(dir, location);
+      if (fs.existsSync(file)) {
+        return parseCodeOwners(file, dir, fs.readFileSync(file, 'utf-8'));
+      }
+    }
+    if (fs.existsSync(path.join(dir, '.git')) || path.dirname(dir) === dir) {
+      return null;
+    }
+  }
+}
+
+function parseCodeOwners(file: string, root: string, text: string): CodeOwners {
+  const rules: OwnerRule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    // GitLab section headers: [Section] or ^[Optional section] @default-owner
+    if (!line || /^\^?\[/.test(line)) continue;
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern: patternToRegExp(pattern), owners });
+  }
+
+  return {
+    file,
+    ownersOf(filePath) {
+      const relPath = path.relative(root, filePath).split(path.sep).join('/');
+      for (let i = rules.length - 1; i >= 0; i--) {
+        if (rules[i].pattern.test(relPath)) return rules[i].owners;
+      }
+      return [];
+    },
+  };
+}
+
+/** gitignore-style pattern → RegExp over repository-relative paths */
+function patternToRegExp(pattern: string): RegExp {
+  // A slash at the start or in the middle anchors the pattern to the root
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  const body = pattern
+    .replace(/^\//, '')
+    .replace(/\/$/, '')
+    .split(/(\*\*\/|\/\*\*|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**/': return '(?:.*/)?';
+        case '/**': return '/.*';
+        case '*': return '[^/]*';
+        case '?': return '[^/]';
+        default: return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+  // A pattern naming a directory owns everything below it
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}(?:/.*)?$`);
+}
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const CONFIG_FILE = 'ng-migrate.config.json';
+
+/** TypeScript files are always looked up with these ignores; `exclude` adds to them */
+export const DEFAULT_EXCLUDE = ['node_modules/**', 'dist/**'];
+const DEFAULT_INCLUDE = ['**/*.ts'];
+
+export const REPORT_FORMATS = ['md', 'html', 'json', 'sarif', 'junit'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export type RuleOptions = Record<string, unknown>;
+
+/**
+ * Contents of ng-migrate.config.json. Committed next to the code so every
+ * developer and CI job runs the same migration; CLI flags take precedence.
+ */
+export interface MigratorConfig {
+  /** Globs of TypeScript files to migrate, relative to the project root (default: all *.ts) */
+  include?: string[];
+  /** Globs to leave out, in addition to node_modules/** and dist/** */
+  exclude?: string[];
+  /** Rule ids that never run (merged with --skip) */
+  disabledRules?: string[];
+  /** Target Angular major when --to is not given */
+  to?: number;
+  /** Reports to write; [] writes none (default: ['md']) */
+  reportFormats?: ReportFormat[];
+  /** Directory the reports are written to, relative to the project root (default: the root itself) */
+  reportDir?: string;
+  /** Options of individual rules, keyed by rule id */
+  rules?: Record<string, RuleOptions>;
+  /** Plugin modules with extra steps or rules (paths relative to the project root, or package names) */
+  plugins?: string[];
+  /** JSON/YAML rule packs of import renames, moves and removals (relative to the project root) */
+  rulePacks?: string[];
+  /**
+   * Version matrix overrides keyed by Angular major, e.g. pinning exact
+   * patches: { "20": { "@angular/core": "20.3.4", "node": "^22.12.0" } }.
+   * "node" sets the engines.node range.
+   */
+  versions?: Record<string, Record<string, string>>;
+}
+
+const KNOWN_KEYS: Array<keyof MigratorConfig> = ['include', 'exclude', 'disabledRules', 'to', 'reportFormats', 'reportDir', 'rules', 'plugins', 'rulePacks', 'versions'];
+
+/**
+ * Read the project's config file. A missing default file means an empty
+ * config; a missing explicitly given file or an invalid one is an error.
+ */
+export function loadConfig(projectPath: string, configPath?: string): { config: MigratorConfig; file: string | null } {
+  const file = configPath ? path.resolve(configPath) : path.join(projectPath, CONFIG_FILE);
+  if (!fs.existsSync(file)) {
+    if (configPath) throw new Error(`Config file not found: ${file}`);
+    return { config: {}, file: null };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Invalid JSON in ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  return { config: validateConfig(raw, file), file };
+}
+
+function validateConfig(raw: unknown, file: string): MigratorConfig {
+  const fail = (message: string): never => {
+    throw new Error(`${path.basename(file)}: ${message}`);
+  };
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) fail('expected a JSON object');
+  const config = raw as Record<string, unknown>;
+
+  const unknown = Object.keys(config).filter(key => !KNOWN_KEYS.includes(key as keyof MigratorConfig));
+  if (unknown.length > 0) fail(`unknown option(s) ${unknown.join(', ')}`);
+
+  for (const key of ['include', 'exclude', 'disabledRules', 'plugins', 'rulePacks'] as const) {
+    if (config[key] !== undefined && !isStringArray(config[key])) fail(`"${key}" must be an array of strings`);
+  }
+  if (config.to !== undefined && (typeof config.to !== 'number' || !Number.isInteger(config.to))) {
+    fail('"to" must be an Angular major version number');
+  }
+  if (config.reportFormats !== undefined) {
+    if (!isStringArray(config.reportFormats)) fail('"reportFormats" must be an array of strings');
+    const bad = (config.reportFormats as string[]).filter(f => !(REPORT_FORMATS as readonly string[]).includes(f));
+    if (bad.length > 0) fail(`unsupported report format(s) ${bad.join(', ')} (supported: ${REPORT_FORMATS.join(', ')})`);
+  }
+  if (config.reportDir !== undefined && typeof config.reportDir !== 'string') fail('"reportDir" must be a string');
+  if (config.rules !== undefined) {
+    const rules = config.rules;
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) fail('"rules" must map rule ids to option objects');
+    for (const [id, options] of Object.entries(rules as object)) {
+      if (typeof options !== 'object' || options === null || Array.isArray(options)) fail(`options of rule "${id}" must be an object`);
+    }
+  }
+
+  if (config.versions !== undefined) {
+    const versions = config.versions;
+    if (typeof versions !== 'object' || versions === null || Array.isArray(versions)) fail('"versions" must map Angular majors to package versions');
+    for (const [major, packages] of Object.entries(versions as object)) {
+      if (!/^\d+$/.test(major)) fail(`"versions" key "${major}" is not an Angular major version number`);
+      if (typeof packages !== 'object' || packages === null || Array.isArray(packages)) fail(`versions of Angular ${major} must be an object`);
+      for (const [name, version] of Object.entries(packages as object)) {
+        if (typeof version !== 'string') fail(`version of ${name} for Angular ${major} must be a string`);
+      }
+    }
+  }
+
+  return config as MigratorConfig;
+}
+
+/** Globs createTsProject() uses to find the files a run may migrate */
+export function getSourceGlobs(config: MigratorConfig): { include: string[]; exclude: string[] } {
+  return {
+    include: config.include ?? DEFAULT_INCLUDE,
+    exclude: [...DEFAULT_EXCLUDE, ...(config.exclude ?? [])],
+  };
+}
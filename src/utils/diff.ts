@@ -0,0 +1,65 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { structuredPatch } from 'diff';
+import { FileRecord } from './files';
+
+/**
+ * Render a git-style unified diff for one touched file.
+ * Paths are relative to the project root and prefixed with a/ and b/.
+ */
+export function createFileDiff(projectPath: string, record: FileRecord): string {
+  const relPath = path.relative(projectPath, record.path).split(path.sep).join('/');
+  const patch = structuredPatch(relPath, relPath, record.before ?? '', record.after, '', '');
+
+  const lines: string[] = [];
+  lines.push(`diff --git a/${relPath} b/${relPath}`);
+  if (record.before === null) {
+    lines.push('new file mode 100644');
+    lines.push('--- /dev/null');
+  } else {
+    lines.push(`--- a/${relPath}`);
+  }
+  lines.push(`+++ b/${relPath}`);
+
+  for (const hunk of patch.hunks) {
+    // An empty range is written as "start,0" where start is the line *before* it
+    const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+    lines.push(`@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`);
+    lines.push(...hunk.lines);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function createProjectDiff(projectPath: string, records: FileRecord[]): string {
+  return records.map(r => createFileDiff(projectPath, r)).join('');
+}
+
+/**
+ * Print diffs of all touched files to the console (used in --dry-run).
+ */
+export function printDiffs(projectPath: string, records: FileRecord[]): void {
+  if (records.length === 0) {
+    console.log(chalk.dim('  (no file contents would change)'));
+    return;
+  }
+
+  for (const record of records) {
+    const diff = createFileDiff(projectPath, record);
+    console.log('');
+    for (const line of diff.trimEnd().split('\n')) {
+      if (line.startsWith('diff --git') || line.startsWith('---') || line.startsWith('+++') || line.startsWith('new file')) {
+        console.log(chalk.bold(line));
+      } else if (line.startsWith('@@')) {
+        console.log(chalk.cyan(line));
+      } else if (line.startsWith('+')) {
+        console.log(chalk.green(line));
+      } else if (line.startsWith('-')) {
+        console.log(chalk.red(line));
+      } else {
+        console.log(line);
+      }
+    }
+  }
+}
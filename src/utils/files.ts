@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface FileRecord {
+  /** Absolute path of the touched file */
+  path: string;
+  /** Content before the migration touched it, null if the file did not exist */
+  before: string | null;
+  after: string;
+}
+
+/**
+ * Single entry point for every file write the migration performs.
+ *
+ * Remembers the original content of each file before its first write, so the
+ * run can later be turned into a diff. In dry-run mode writes are kept in memory
+ * only and served back by read()/exists(), so later rules and steps see the
+ * would-be contents instead of the untouched files on disk.
+ */
+export class ProjectFiles {
+  private readonly originals = new Map<string, string | null>();
+  private readonly latest = new Map<string, string>();
+  /** Content of each file before its first write in the open transaction */
+  private transaction: Map<string, string | null> | null = null;
+  private writeListener: ((filePath: string, before: string | null) => void) | null = null;
+
+  constructor(private readonly dryRun = false) {}
+
+  exists(filePath: string): boolean {
+    return this.latest.has(path.resolve(filePath)) || fs.existsSync(filePath);
+  }
+
+  read(filePath: string): string {
+    const absPath = path.resolve(filePath);
+    return this.latest.get(absPath) ?? fs.readFileSync(absPath, 'utf-8');
+  }
+
+  write(filePath: string, content: string): void {
+    const absPath = path.resolve(filePath);
+    if (!this.originals.has(absPath)) {
+      this.originals.set(absPath, fs.existsSync(absPath) ? fs.readFileSync(absPath, 'utf-8') : null);
+    }
+    if (this.transaction && !this.transaction.has(absPath)) {
+      this.transaction.set(absPath, this.latest.get(absPath) ?? this.originals.get(absPath)!);
+    }
+    this.latest.set(absPath, content);
+
+    if (!this.dryRun) {
+      fs.writeFileSync(absPath, content, 'utf-8');
+    }
+    this.writeListener?.(absPath, this.originals.get(absPath)!);
+  }
+
+  /**
+   * Get notified after every write (used to checkpoint progress), with the
+   * file's content before its first write in this run
+   */
+  onWrite(listener: ((filePath: string, before: string | null) => void) | null): void {
+    this.writeListener = listener;
+  }
+
+  /**
+   * Start snapshotting files before their first write. Every write until
+   * commit()/rollback() can be undone as a unit.
+   */
+  begin(): void {
+    if (this.transaction) {
+      throw new Error('A file transaction is already open');
+    }
+    this.transaction = new Map();
+  }
+
+  commit(): void {
+    this.transaction = null;
+  }
+
+  /**
+   * Restore every file written since begin() to its snapshot, deleting files
+   * that did not exist. Returns the restored paths.
+   */
+  rollback(): string[] {
+    const snapshot = this.transaction;
+    this.transaction = null;
+    if (!snapshot) return [];
+
+    for (const [filePath, content] of snapshot) {
+      if (content === null) {
+        this.latest.delete(filePath);
+        this.originals.delete(filePath);
+        if (!this.dryRun && fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+        }
+      } else {
+        this.latest.set(filePath, content);
+        if (!this.dryRun) {
+          fs.writeFileSync(filePath, content, 'utf-8');
+        }
+      }
+    }
+
+    return [...snapshot.keys()];
+  }
+
+  /** Paths written so far, in first-write order */
+  getWrittenPaths(): string[] {
+    return [...this.originals.keys()];
+  }
+
+  /** Files whose content actually differs from what was on disk before the run */
+  getRecords(): FileRecord[] {
+    const records: FileRecord[] = [];
+    for (const [filePath, before] of this.originals) {
+      const after = this.latest.get(filePath)!;
+      if (before !== after) {
+        records.push({ path: filePath, before, after });
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { FileRecord } from './files';
+
+export const JOURNAL_DIR = '.ng-migrate';
+
+export interface JournalFile {
+  /** Path relative to the project root */
+  path: string;
+  /** Content before the run, null if the run created the file */
+  before: string | null;
+  /** sha256 of the content the run left behind — used to detect later edits */
+  afterHash: string;
+}
+
+export interface Journal {
+  id: string;
+  createdAt: string;
+  fromVersion: number;
+  toVersion: number;
+  revertedAt?: string;
+  files: JournalFile[];
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+function journalPath(projectPath: string, id: string): string {
+  return path.join(projectPath, JOURNAL_DIR, `journal-${id}.json`);
+}
+
+/**
+ * Record the original contents of every file an applied run touched,
+ * so `ng-migrate revert` can undo it without relying on git.
+ */
+export function writeJournal(
+  projectPath: string,
+  records: FileRecord[],
+  fromVersion: number,
+  toVersion: number
+): Journal {
+  const createdAt = new Date().toISOString();
+  const journal: Journal = {
+    id: createdAt.replace(/[:.]/g, '-'),
+    createdAt,
+    fromVersion,
+    toVersion,
+    files: records.map(r => ({
+      path: path.relative(projectPath, r.path).split(path.sep).join('/'),
+      before: r.before,
+      afterHash: hashContent(r.after),
+    })),
+  };
+
+  fs.mkdirSync(path.join(projectPath, JOURNAL_DIR), { recursive: true });
+  fs.writeFileSync(journalPath(projectPath, journal.id), JSON.stringify(journal, null, 2) + '\n', 'utf-8');
+  return journal;
+}
+
+/** All journals of the project, oldest first */
+export function listJournals(projectPath: string): Journal[] {
+  const dir = path.join(projectPath, JOURNAL_DIR);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(name => /^journal-.+\.json$/.test(name))
+    .sort()
+    .map(name => JSON.parse(fs.readFileSync(path.join(dir, name), 'utf-8')) as Journal);
+}
+
+/**
+ * Restore the files of a recorded run (the latest one by default).
+ *
+ * Refuses to touch anything if the run was already reverted or if any of its
+ * files changed since the run — reverting would silently drop those edits.
+ */
+export function revertJournal(projectPath: string, id?: string): Journal {
+  const journals = listJournals(projectPath);
+  const journal = id
+    ? journals.find(j => j.id === id)
+    : [...journals].reverse().find(j => !j.revertedAt);
+
+  if (!journal) {
+    throw new Error(id ? `No migration run "${id}" found in ${JOURNAL_DIR}/` : `No migration run to revert in ${JOURNAL_DIR}/`);
+  }
+  if (journal.revertedAt) {
+    throw new Error(`Run ${journal.id} was already reverted at ${journal.revertedAt}`);
+  }
+
+  const modified = journal.files.filter(f => {
+    const filePath = path.join(projectPath, f.path);
+    return !fs.existsSync(filePath) || hashContent(fs.readFileSync(filePath, 'utf-8')) !== f.afterHash;
+  });
+  if (modified.length > 0) {
+    throw new Error(
+      `Refusing to revert run ${journal.id}: ${modified.length} file(s) changed since the migration:\n` +
+      modified.map(f => `    - ${f.path}`).join('\n')
+    );
+  }
+
+  for (const f of journal.files) {
+    const filePath = path.join(projectPath, f.path);
+    if (f.before === null) {
+      fs.unlinkSync(filePath);
+    } else {
+      fs.writeFileSync(filePath, f.before, 'utf-8');
+    }
+  }
+
+  journal.revertedAt = new Date().toISOString();
+  fs.writeFileSync(journalPath(projectPath, journal.id), JSON.stringify(journal, null, 2) + '\n', 'utf-8');
+  return journal;
+}
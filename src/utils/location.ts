@@ -0,0 +1,12 @@
+import { Node } from 'ts-morph';
+import { Warning } from '../types';
+
+export type WarningLocation = Pick<Warning, 'line' | 'column' | 'endLine' | 'endColumn'>;
+
+/** 1-based start and end position of a node, without leading trivia */
+export function nodeLocation(node: Node): WarningLocation {
+  const sf = node.getSourceFile();
+  const start = sf.getLineAndColumnAtPos(node.getStart());
+  const end = sf.getLineAndColumnAtPos(node.getEnd());
+  return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column };
+}
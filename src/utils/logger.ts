@@ -32,3 +32,13 @@ export class ConsoleLogger implements Logger {
     this.changes.push({ file, description });
   }
 }
+
+/** Drops all progress output, for callers that only want the returned results */
+export class SilentLogger implements Logger {
+  info(): void {}
+  success(): void {}
+  warn(): void {}
+  error(): void {}
+  step(): void {}
+  change(): void {}
+}
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PackageJson } from './pkg';
+import { rangeAllowsMajor, rangeAllowsVersion } from './versions';
+
+/** Peers npm checks against the Angular the project installs */
+export const AUDITED_PEERS = ['@angular/core', '@angular/common'];
+
+export interface PeerConflict {
+  /** Installed package and its version in node_modules */
+  name: string;
+  version: string;
+  /** @angular/core or @angular/common */
+  peer: string;
+  /** The package's peerDependencies range, which excludes the target major */
+  range: string;
+  /** package.json range after the run, when the run moved the package off the installed version */
+  updatedTo?: string;
+}
+
+export interface PeerAudit {
+  targetMajor: number;
+  /** The node_modules directory that was scanned */
+  nodeModules: string;
+  /** Installed packages with a peer dependency on @angular/core or @angular/common */
+  checked: number;
+  /** Conflicts of node_modules as installed before the run */
+  before: PeerConflict[];
+  /** Conflicts left after the run: these make `npm install` fail with ERESOLVE */
+  after: PeerConflict[];
+}
+
+interface InstalledPackage {
+  name: string;
+  version: string;
+  peerDependencies: Record<string, string>;
+}
+
+/**
+ * Check the peer dependencies of every installed package against the target
+ * Angular major, offline. node_modules is looked up in the project and its
+ * parents up to the repository root (hoisted workspaces). Returns null when
+ * there is none, i.e. dependencies were never installed.
+ */
+export function auditPeerDependencies(projectPath: string, targetMajor: number): PeerAudit | null {
+  const nodeModules = findNodeModules(projectPath);
+  if (!nodeModules) return null;
+
+  const dependents = listInstalledPackages(nodeModules)
+    .filter(p => AUDITED_PEERS.some(peer => typeof p.peerDependencies[peer] === 'string'));
+  const conflicts: PeerConflict[] = [];
+  for (const pkg of dependents) {
+    for (const peer of AUDITED_PEERS) {
+      const range = pkg.peerDependencies[peer];
+      // Ranges that can't be read (workspace:, URLs) are npm's problem, not a known conflict
+      if (typeof range === 'string' && rangeAllowsMajor(range, targetMajor) === false) {
+        conflicts.push({ name: pkg.name, version: pkg.version, peer, range });
+      }
+    }
+  }
+
+  return { targetMajor, nodeModules, checked: dependents.length, before: conflicts, after: conflicts };
+}
+
+/**
+ * The audit after a run: a conflicting package whose package.json range no
+ * longer allows the installed version gets reinstalled by `npm install`, at
+ * a release the version matrix picked for the target major.
+ */
+export function updatePeerAudit(audit: PeerAudit, pkg: PackageJson): PeerAudit {
+  const declared = { ...pkg.peerDependencies, ...pkg.devDependencies, ...pkg.dependencies };
+  const before = audit.before.map(conflict => {
+    const range = declared[conflict.name];
+    return range !== undefined && rangeAllowsVersion(range, conflict.version) === false
+      ? { ...conflict, updatedTo: range }
+      : conflict;
+  });
+  return { ...audit, before, after: before.filter(c => c.updatedTo === undefined) };
+}
+
+function findNodeModules(projectPath: string): string | null {
+  for (let dir = path.resolve(projectPath); ; dir = path.dirname(dir)) {
+    const nodeModules = path.join(dir, 'node_modules');
+    if (fs.existsSync(nodeModules)) return nodeModules;
+    if (fs.existsSync(path.join(dir, '.git')) || path.dirname(dir) === dir) return null;
+  }
+}
+
+/** Top-level packages of node_modules, scoped ones (@scope/name) included */
+function listInstalledPackages(nodeModules: string): InstalledPackage[] {
+  const dirs: string[] = [];
+  for (const entry of readDir(nodeModules)) {
+    if (entry.startsWith('.')) continue;
+    if (entry.startsWith('@')) {
+      dirs.push(...readDir(path.join(nodeModules, entry)).map(name => path.join(nodeModules, entry, name)));
+    } else {
+      dirs.push(path.join(nodeModules, entry));
+    }
+  }
+
+  const packages: InstalledPackage[] = [];
+  for (const dir of dirs) {
+    const manifest = path.join(dir, 'package.json');
+    if (!fs.existsSync(manifest)) continue;
+    try {
+      const json = JSON.parse(fs.readFileSync(manifest, 'utf-8'));
+      if (typeof json.name !== 'string') continue;
+      packages.push({
+        name: json.name,
+        version: typeof json.version === 'string' ? json.version : '0.0.0',
+        peerDependencies: json.peerDependencies ?? {},
+      });
+    } catch {
+      // A half-written package.json of an interrupted install: npm will redo it anyway
+    }
+  }
+  return packages.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function readDir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
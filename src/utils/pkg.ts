@@ -1,6 +1,14 @@
-import * as fs from 'fs';
 import * as path from 'path';
-import { Change, MigrationContext } from '../types';
+import { Change, MigrationContext, Warning } from '../types';
+import { ProjectFiles } from './files';
+import {
+  compareVersions,
+  getEcosystemLibrary,
+  getNodeEngines,
+  getPackageVersions,
+  isNodeVersionAllowed,
+  minVersion,
+} from './versions';
 
 export interface PackageJson {
   dependencies?: Record<string, string>;
@@ -9,17 +17,17 @@ export interface PackageJson {
   [key: string]: unknown;
 }
 
-export function readPackageJson(projectPath: string): PackageJson {
+export function readPackageJson(projectPath: string, files = new ProjectFiles()): PackageJson {
   const pkgPath = path.join(projectPath, 'package.json');
-  if (!fs.existsSync(pkgPath)) {
+  if (!files.exists(pkgPath)) {
     throw new Error(`package.json not found at ${pkgPath}`);
   }
-  return JSON.parse(fs.readFileSync(pkgPath, 'utf-8')) as PackageJson;
+  return JSON.parse(files.read(pkgPath)) as PackageJson;
 }
 
-export function writePackageJson(projectPath: string, pkg: PackageJson): void {
+export function writePackageJson(projectPath: string, pkg: PackageJson, files: ProjectFiles): void {
   const pkgPath = path.join(projectPath, 'package.json');
-  fs.writeFileSync(pkgPath, JSON.stringify(pkg, null, 2) + '\n', 'utf-8');
+  files.write(pkgPath, JSON.stringify(pkg, null, 2) + '\n');
 }
 
 export function detectAngularVersion(projectPath: string): number {
@@ -49,7 +57,7 @@ export function replacePackageDependency(
 ): Change[] {
   if (ctx.skipPackageJson) return [];
 
-  const pkg = readPackageJson(ctx.projectPath);
+  const pkg = readPackageJson(ctx.projectPath, ctx.files);
   const changes: Change[] = [];
   const sections: Array<keyof PackageJson> = ['dependencies', 'devDependencies', 'peerDependencies'];
 
@@ -66,53 +74,99 @@ export function replacePackageDependency(
     });
   }
 
-  if (changes.length > 0 && !ctx.dryRun) {
-    writePackageJson(ctx.projectPath, pkg);
+  if (changes.length > 0) {
+    writePackageJson(ctx.projectPath, pkg, ctx.files);
   }
 
   return changes;
 }
 
+/** Per-rule options of the update-packages-v* rules in ng-migrate.config.json */
+export interface PackageVersionOptions {
+  /** Ranges that replace (or add to) the version matrix row of the step */
+  versions: Record<string, string>;
+}
+
 /**
- * Update package versions in all dependency sections.
- * Only updates if the package is already present.
+ * Bump package.json to the version matrix row of `angularMajor` (see
+ * versions.ts), with the config's `versions` and `overrides` applied on top.
+ * Only packages already present are updated; engines.node is replaced when its
+ * lowest version is one the target no longer supports.
+ *
+ * Third-party libraries from ECOSYSTEM_LIBRARIES move to their release line
+ * for the major (never backwards). A library with no line for it, or with a
+ * range that can't be compared, is left alone and reported as a warning.
  */
 export function updatePackageVersions(
   ctx: MigrationContext,
-  updates: Record<string, string>
-): Change[] {
+  angularMajor: number,
+  overrides: Record<string, string> = {}
+): { changes: Change[]; warnings: Warning[] } {
   if (ctx.skipPackageJson) {
     ctx.logger.info('Skipping package.json version updates (--skip-package-json)');
-    return [];
+    return { changes: [], warnings: [] };
   }
 
-  const pkg = readPackageJson(ctx.projectPath);
+  const updates = { ...getPackageVersions(angularMajor, ctx.config), ...overrides };
+  const pkg = readPackageJson(ctx.projectPath, ctx.files);
   const changes: Change[] = [];
+  const warnings: Warning[] = [];
   const sections: Array<keyof PackageJson> = ['dependencies', 'devDependencies', 'peerDependencies'];
 
+  const bump = (section: keyof PackageJson, deps: Record<string, string>, name: string, newVersion: string) => {
+    const oldVersion = deps[name];
+    if (oldVersion === newVersion) return;
+    deps[name] = newVersion;
+    changes.push({
+      file: 'package.json',
+      description: `${section}: ${name} ${oldVersion} → ${newVersion}`,
+      before: oldVersion,
+      after: newVersion,
+    });
+  };
+
   for (const section of sections) {
     const deps = pkg[section] as Record<string, string> | undefined;
     if (!deps) continue;
 
     for (const [name, newVersion] of Object.entries(updates)) {
-      if (name in deps) {
-        const oldVersion = deps[name];
-        if (oldVersion !== newVersion) {
-          deps[name] = newVersion;
-          changes.push({
-            file: 'package.json',
-            description: `${section}: ${name} ${oldVersion} → ${newVersion}`,
-            before: oldVersion,
-            after: newVersion,
-          });
-        }
+      if (name in deps) bump(section, deps, name, newVersion);
+    }
+
+    for (const name of Object.keys(deps)) {
+      const library = name in updates ? undefined : getEcosystemLibrary(name);
+      if (!library) continue;
+
+      const current = minVersion(deps[name]);
+      const line = library[angularMajor];
+      if (line && current) {
+        if (compareVersions(current, minVersion(line)!) < 0) bump(section, deps, name, line);
+        continue;
       }
+      warnings.push({
+        file: path.join(ctx.projectPath, 'package.json'),
+        message: line
+          ? `${section}: ${name} "${deps[name]}" can't be matched to a release line — Angular ${angularMajor} needs ${line}. Update it manually.`
+          : `${section}: ${name} "${deps[name]}" has no known release for Angular ${angularMajor} (known: Angular ${Object.keys(library).join(', ')}). Check the library's changelog before upgrading, or replace it.`,
+      });
     }
   }
 
-  if (changes.length > 0 && !ctx.dryRun) {
-    writePackageJson(ctx.projectPath, pkg);
+  const engines = pkg.engines as Record<string, string> | undefined;
+  const nodeRange = getNodeEngines(angularMajor, ctx.config);
+  if (typeof engines?.node === 'string' && isNodeVersionAllowed(engines.node, nodeRange) === false) {
+    changes.push({
+      file: 'package.json',
+      description: `engines.node ${engines.node} → ${nodeRange}`,
+      before: engines.node,
+      after: nodeRange,
+    });
+    engines.node = nodeRange;
+  }
+
+  if (changes.length > 0) {
+    writePackageJson(ctx.projectPath, pkg, ctx.files);
   }
 
-  return changes;
+  return { changes, warnings };
 }
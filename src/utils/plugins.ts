@@ -0,0 +1,183 @@
+import * as path from 'path';
+import { SourceFile } from 'ts-morph';
+import { Change, MigrationContext, MigrationResult, MigrationStep, Warning } from '../types';
+import { getSourceFiles } from './codemods';
+import { MigrationRule, defineRule, isRuleEnabled } from './rules';
+
+/**
+ * A single rule contributed by a plugin. It runs after the built-in step
+ * that migrates to `step`, in a step of its own that shares the run's context.
+ */
+export interface PluginRule extends MigrationRule {
+  run(ctx: MigrationContext, sourceFiles: SourceFile[]): PluginRuleOutput | Promise<PluginRuleOutput>;
+}
+
+export interface PluginRuleOutput {
+  changes: Change[];
+  warnings: Warning[];
+}
+
+/** What a plugin module exports (as module.exports or as its default export) */
+export interface MigrationPlugin {
+  name?: string;
+  steps?: MigrationStep[];
+  rules?: PluginRule[];
+}
+
+export interface LoadedPlugin {
+  name: string;
+  /** Resolved module or rule pack file */
+  file: string;
+  /** Rule packs are plain data; only modules are required again by rule worker threads */
+  isModule: boolean;
+  steps: MigrationStep[];
+  rules: PluginRule[];
+}
+
+// Rules register themselves in the catalog once, so a file is only loaded once per process
+const loadedPlugins = new Map<string, LoadedPlugin>();
+
+/**
+ * Load plugin modules given in the config or with --plugin. Relative paths
+ * are resolved against `baseDir`, bare names as packages installed in it.
+ */
+export function loadPlugins(specifiers: string[], baseDir: string): LoadedPlugin[] {
+  return specifiers.map(spec => {
+    const file = resolvePlugin(spec, baseDir);
+    const cached = loadedPlugins.get(file);
+    if (cached) return cached;
+
+    let exported: unknown;
+    try {
+      exported = require(file);
+    } catch (e) {
+      throw new Error(`Plugin "${spec}" failed to load: ${e instanceof Error ? e.message : e}`);
+    }
+    const plugin = validatePlugin(
+      ((exported as { default?: unknown }).default ?? exported) as MigrationPlugin,
+      spec
+    );
+    return registerPlugin(file, true, { ...plugin, name: plugin.name ?? spec });
+  });
+}
+
+/** Add the rules of a loaded plugin to the catalog and remember it under `file` */
+export function registerPlugin(file: string, isModule: boolean, plugin: MigrationPlugin): LoadedPlugin {
+  const cached = loadedPlugins.get(file);
+  if (cached) return cached;
+
+  const loaded: LoadedPlugin = {
+    name: plugin.name ?? path.basename(file),
+    file,
+    isModule,
+    steps: plugin.steps ?? [],
+    rules: plugin.rules ?? [],
+  };
+  for (const rule of loaded.rules) {
+    const { id, step, kind, description, category, severity, docsUrl } = rule;
+    defineRule({ id, step, kind, description, category, severity, docsUrl });
+  }
+  loadedPlugins.set(file, loaded);
+  return loaded;
+}
+
+/** Module files of every plugin loaded so far */
+export function getLoadedPluginFiles(): string[] {
+  return [...loadedPlugins.values()].filter(p => p.isModule).map(p => p.file);
+}
+
+function resolvePlugin(spec: string, baseDir: string): string {
+  const isPath = spec.startsWith('.') || path.isAbsolute(spec);
+  try {
+    return isPath
+      ? require.resolve(path.resolve(baseDir, spec))
+      : require.resolve(spec, { paths: [baseDir] });
+  } catch {
+    const where = isPath ? path.resolve(baseDir, spec) : `node_modules of ${baseDir}`;
+    throw new Error(`Plugin "${spec}" not found (looked in ${where})`);
+  }
+}
+
+function validatePlugin(plugin: MigrationPlugin, spec: string): MigrationPlugin {
+  const fail = (message: string) => new Error(`Plugin "${spec}": ${message}`);
+  if (typeof plugin !== 'object' || plugin === null) {
+    throw fail('module must export an object with "steps" and/or "rules"');
+  }
+  if (!plugin.steps && !plugin.rules) {
+    throw fail('exports neither "steps" nor "rules"');
+  }
+  for (const step of plugin.steps ?? []) {
+    if (typeof step.name !== 'string' || typeof step.from !== 'number' || typeof step.to !== 'number' || typeof step.run !== 'function') {
+      throw fail('every step needs name, from, to and run()');
+    }
+  }
+  for (const rule of plugin.rules ?? []) {
+    if (typeof rule.id !== 'string' || typeof rule.step !== 'number' || typeof rule.run !== 'function') {
+      throw fail('every rule needs id, step and run()');
+    }
+    if (rule.kind !== 'auto-fix' && rule.kind !== 'detect') {
+      throw fail(`rule "${rule.id}" has kind "${rule.kind}", expected "auto-fix" or "detect"`);
+    }
+  }
+  return plugin;
+}
+
+/**
+ * Built-in steps plus the plugins' steps and rules, ordered by target version.
+ * Plugin rules for one version are wrapped in a step that runs after the
+ * built-in step of that version.
+ */
+export function mergePluginSteps(builtIn: MigrationStep[], plugins: LoadedPlugin[]): MigrationStep[] {
+  const steps = [...builtIn, ...plugins.flatMap(p => p.steps)];
+
+  const rulesByVersion = new Map<number, PluginRule[]>();
+  for (const rule of plugins.flatMap(p => p.rules)) {
+    rulesByVersion.set(rule.step, [...(rulesByVersion.get(rule.step) ?? []), rule]);
+  }
+  for (const [to, rules] of rulesByVersion) {
+    steps.push(createPluginRuleStep(to, rules));
+  }
+
+  const names = new Set<string>();
+  for (const step of steps) {
+    if (names.has(step.name)) {
+      throw new Error(`Two migration steps are named "${step.name}" — step names must be unique`);
+    }
+    names.add(step.name);
+  }
+
+  // Array.prototype.sort is stable: built-in steps stay ahead of plugin steps of the same version
+  return steps.sort((a, b) => a.to - b.to || a.from - b.from);
+}
+
+function createPluginRuleStep(to: number, rules: PluginRule[]): MigrationStep {
+  return {
+    from: to - 1,
+    to,
+    name: `Angular ${to - 1} → ${to} (plugin rules)`,
+
+    async run(ctx: MigrationContext): Promise<MigrationResult> {
+      const result: MigrationResult = {
+        step: this.name,
+        changes: [],
+        warnings: [],
+        errors: [],
+      };
+
+      ctx.logger.step(this.name);
+      const sourceFiles = getSourceFiles(ctx.project, ctx.projectPath);
+
+      for (const rule of rules) {
+        if (!isRuleEnabled(ctx, rule)) continue;
+        ctx.logger.info(`${rule.id}: ${rule.description}`);
+        const { changes, warnings } = await rule.run(ctx, sourceFiles);
+        changes.forEach(c => ctx.logger.change(c.file, c.description));
+        warnings.forEach(w => ctx.logger.warn(w.message));
+        result.changes.push(...changes.map(c => ({ ...c, rule: c.rule ?? rule.id })));
+        result.warnings.push(...warnings.map(w => ({ ...w, rule: w.rule ?? rule.id })));
+      }
+
+      return result;
+    },
+  };
+}
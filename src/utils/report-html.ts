@@ -0,0 +1,296 @@
+import * as path from 'path';
+import { diffLines, structuredPatch } from 'diff';
+import { WarningSeverity } from '../types';
+import { ReportInput, describeLocation } from './report';
+import { AUDITED_PEERS, PeerAudit } from './peer-audit';
+import { FileRecord } from './files';
+
+/** One row of the HTML report: a change, a warning or an error of some step */
+interface ReportItem {
+  key: string;
+  severity: WarningSeverity;
+  kind: 'change' | 'warning' | 'error';
+  file: string;
+  /** file:line:column as shown next to the item */
+  location: string;
+  line?: number;
+  rule?: string;
+  docsUrl?: string;
+  text: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * A single offline HTML page: steps → files → items, with before/after
+ * diffs, filters by severity, rule and directory, and checkboxes kept in
+ * localStorage so a team can tick items off while working through them.
+ * Every touched file links to its diff over the whole run at the end.
+ */
+export function renderHtml({ projectPath, results, dryRun, fromVersion, toVersion, peerAudit, fileRecords = [] }: ReportInput): string {
+  const rel = (file: string) => file.replace(projectPath, '').replace(/^[\\/]/, '').split(path.sep).join('/');
+  const steps = results.map(result => {
+    const seen = new Map<string, number>();
+    // Keys only need to be stable between runs that report the same items
+    const keyOf = (item: Omit<ReportItem, 'key'>) => {
+      const base = [result.step, item.kind, item.file, item.line ?? '', item.text].join('|');
+      const n = (seen.get(base) ?? 0) + 1;
+      seen.set(base, n);
+      return n === 1 ? base : `${base}|${n}`;
+    };
+    const items: ReportItem[] = [];
+    const add = (item: Omit<ReportItem, 'key'>) => items.push({ ...item, key: keyOf(item) });
+
+    result.errors.forEach(e => add({ severity: 'error', kind: 'error', file: rel(e.file), location: rel(e.file), text: e.message }));
+    result.warnings.forEach(w => add({
+      severity: w.severity ?? 'warning',
+      kind: 'warning',
+      file: rel(w.file) || '(project)',
+      location: describeLocation(projectPath, w),
+      line: w.line,
+      rule: w.rule,
+      docsUrl: w.docsUrl,
+      text: w.message,
+    }));
+    result.changes.forEach(c => add({ severity: 'info', kind: 'change', file: rel(c.file), location: rel(c.file), rule: c.rule, text: c.description, before: c.before, after: c.after }));
+    return { name: result.step, items };
+  });
+
+  const all = steps.flatMap(s => s.items);
+  const rules = [...new Set(all.map(i => i.rule).filter((r): r is string => !!r))].sort();
+  const dirs = [...new Set(all.map(i => dirOf(i.file)))].sort();
+  const count = (kind: ReportItem['kind']) => all.filter(i => i.kind === kind).length;
+  const diffFiles = new Set(fileRecords.map(r => rel(r.path)));
+
+  const lines: string[] = [];
+  lines.push('<!DOCTYPE html>');
+  lines.push('<html lang="en">');
+  lines.push('<head>');
+  lines.push('<meta charset="utf-8">');
+  lines.push(`<title>Angular Migration Report — ${esc(path.basename(projectPath))}</title>`);
+  lines.push(`<style>${STYLES}</style>`);
+  lines.push('</head>');
+  lines.push(`<body data-storage-key="${esc(`ng-migrate-report:${projectPath}:${fromVersion}-${toVersion}`)}">`);
+  lines.push('<header>');
+  lines.push('<h1>Angular Migration Report</h1>');
+  lines.push(`<p>${esc(projectPath)} · Angular ${fromVersion} → ${toVersion} · ${dryRun ? 'DRY RUN (no files changed)' : 'APPLIED'} · ${esc(new Date().toISOString().slice(0, 19).replace('T', ' '))}</p>`);
+  lines.push(`<p class="totals"><span class="badge change">${count('change')} changes</span> <span class="badge warning">${count('warning')} warnings</span> <span class="badge error">${count('error')} errors</span> <span id="progress"></span></p>`);
+  lines.push('<form id="filters">');
+  lines.push(`<label>Severity ${select('severity', ['error', 'warning', 'info'])}</label>`);
+  lines.push(`<label>Rule ${select('rule', rules)}</label>`);
+  lines.push(`<label>Directory ${select('dir', dirs)}</label>`);
+  lines.push('<label><input type="checkbox" name="hideDone"> Hide done</label>');
+  lines.push('</form>');
+  lines.push('</header>');
+  lines.push('<main>');
+
+  for (const step of steps) {
+    lines.push('<section class="step">');
+    lines.push(`<h2>${esc(step.name)}</h2>`);
+    if (step.items.length === 0) {
+      lines.push('<p class="empty">Nothing to report in this step.</p>');
+    }
+
+    const files = [...new Set(step.items.map(i => i.file))].sort();
+    for (const file of files) {
+      const items = step.items.filter(i => i.file === file);
+      const diffLink = diffFiles.has(file) ? ` <a href="#${esc(diffAnchor(file))}">diff</a>` : '';
+      lines.push(`<details class="file" open><summary><code>${esc(file)}</code> <span class="count">${items.length}</span>${diffLink}</summary>`);
+      lines.push('<ul>');
+      for (const item of items) {
+        lines.push(renderItem(item));
+      }
+      lines.push('</ul>');
+      lines.push('</details>');
+    }
+    lines.push('</section>');
+  }
+
+  if (fileRecords.length > 0) {
+    lines.push('<section class="step">');
+    lines.push(`<h2>Files changed (${fileRecords.length})</h2>`);
+    for (const record of [...fileRecords].sort((a, b) => rel(a.path).localeCompare(rel(b.path)))) {
+      lines.push(renderFileDiff(rel(record.path), record));
+    }
+    lines.push('</section>');
+  }
+
+  if (peerAudit) {
+    lines.push(renderPeerAudit(peerAudit));
+  }
+
+  lines.push('</main>');
+  lines.push(`<script>${SCRIPT}</script>`);
+  lines.push('</body>');
+  lines.push('</html>');
+  return lines.join('\n') + '\n';
+}
+
+/** Installed packages whose peer ranges exclude the target, left and resolved */
+function renderPeerAudit(audit: PeerAudit): string {
+  const parts: string[] = [];
+  parts.push('<section class="step">');
+  parts.push(`<h2>Peer dependencies (Angular ${audit.targetMajor})</h2>`);
+  parts.push(`<p>${audit.checked} installed package(s) declare peer dependencies on ${AUDITED_PEERS.map(p => `<code>${p}</code>`).join(' or ')}.</p>`);
+  if (audit.before.length === 0) {
+    parts.push(`<p class="empty">No conflicts: every installed package allows Angular ${audit.targetMajor}.</p>`);
+  } else {
+    parts.push('<table class="peers"><thead><tr><th>Package</th><th>Installed</th><th>Peer</th><th>Range</th><th>Status</th></tr></thead><tbody>');
+    for (const c of [...audit.after, ...audit.before.filter(c => c.updatedTo !== undefined)]) {
+      const status = c.updatedTo !== undefined
+        ? `<span class="badge change">resolved</span> package.json now <code>${esc(c.updatedTo)}</code>`
+        : '<span class="badge error">ERESOLVE</span> upgrade or replace';
+      parts.push(`<tr><td><code>${esc(c.name)}</code></td><td>${esc(c.version)}</td><td><code>${esc(c.peer)}</code></td><td><code>${esc(c.range)}</code></td><td>${status}</td></tr>`);
+    }
+    parts.push('</tbody></table>');
+  }
+  parts.push('</section>');
+  return parts.join('\n');
+}
+
+function renderItem(item: ReportItem): string {
+  const label = item.kind === 'change' ? 'auto-fix' : item.kind === 'warning' ? item.severity : item.kind;
+  const location = item.line ? `<span class="line">${esc(item.location.slice(item.file.length))}</span>` : '';
+  const rule = item.rule ? ` <code class="rule">${esc(item.rule)}</code>` : '';
+  const docs = item.docsUrl ? ` <a href="${esc(item.docsUrl)}" target="_blank" rel="noopener">docs</a>` : '';
+
+  const parts: string[] = [];
+  parts.push(`<li class="item" data-key="${esc(item.key)}" data-severity="${item.severity}" data-rule="${esc(item.rule ?? '')}" data-dir="${esc(dirOf(item.file))}">`);
+  parts.push(`<label><input type="checkbox"> <span class="badge ${item.kind === 'warning' ? item.severity : item.kind}">${label}</span>${location} ${esc(item.text)}${rule}</label>${docs}`);
+  if (item.before !== undefined && item.after !== undefined) {
+    parts.push(renderDiff(item.before, item.after));
+  }
+  parts.push('</li>');
+  return parts.join('');
+}
+
+/** Unified diff of one file over the whole run, with 3 lines of context */
+function renderFileDiff(file: string, record: FileRecord): string {
+  const patch = structuredPatch(file, file, record.before ?? '', record.after, '', '');
+  const rows = patch.hunks.flatMap(hunk => [
+    `<span class="hunk">@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@</span>`,
+    ...hunk.lines.filter(line => !line.startsWith('\\')).map(line => {
+      const cls = line[0] === '+' ? 'add' : line[0] === '-' ? 'del' : 'ctx';
+      return `<span class="${cls}">${esc(line[0])} ${esc(line.slice(1))}</span>`;
+    }),
+  ]);
+  const label = record.before === null ? ' <span class="count">new file</span>' : '';
+  // Not a .file: the filters hide .file blocks without matching items, and diffs have none
+  return `<details class="file-diff" id="${esc(diffAnchor(file))}" open><summary><code>${esc(file)}</code>${label}</summary><pre class="diff">${rows.join('')}</pre></details>`;
+}
+
+function diffAnchor(file: string): string {
+  // ids may contain anything but whitespace
+  return `diff:${file.replace(/\s/g, '_')}`;
+}
+
+function renderDiff(before: string, after: string): string {
+  const rows = diffLines(before.endsWith('\n') ? before : before + '\n', after.endsWith('\n') ? after : after + '\n')
+    .flatMap(part => part.value.replace(/\n$/, '').split('\n').map(text => {
+      const cls = part.added ? 'add' : part.removed ? 'del' : 'ctx';
+      const sign = part.added ? '+' : part.removed ? '-' : ' ';
+      return `<span class="${cls}">${sign} ${esc(text)}</span>`;
+    }));
+  return `<pre class="diff">${rows.join('')}</pre>`;
+}
+
+function select(name: string, values: string[]): string {
+  const options = values.map(v => `<option value="${esc(v)}">${esc(v)}</option>`).join('');
+  return `<select name="${name}"><option value="">all</option>${options}</select>`;
+}
+
+function dirOf(file: string): string {
+  const dir = path.posix.dirname(file);
+  return dir === '.' ? '(root)' : dir;
+}
+
+function esc(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const STYLES = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; }
+header { position: sticky; top: 0; background: #f6f8fa; border-bottom: 1px solid #d0d7de; padding: 12px 24px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+header p { margin: 4px 0; color: #57606a; }
+#filters { display: flex; gap: 16px; flex-wrap: wrap; margin-top: 8px; }
+main { padding: 0 24px 48px; }
+h2 { font-size: 17px; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; margin-top: 28px; }
+.file, .file-diff { margin: 8px 0; }
+.file summary, .file-diff summary { cursor: pointer; }
+.count { color: #57606a; font-size: 12px; }
+ul { list-style: none; padding-left: 20px; margin: 4px 0; }
+.item { margin: 4px 0; }
+.item.done > label { color: #8c959f; text-decoration: line-through; }
+.badge { display: inline-block; border-radius: 10px; padding: 0 8px; font-size: 12px; color: #fff; }
+.badge.change { background: #1a7f37; }
+.badge.warning { background: #9a6700; }
+.badge.error { background: #cf222e; }
+.badge.info { background: #0969da; }
+.line { color: #57606a; font-family: monospace; }
+.rule { color: #57606a; font-size: 12px; }
+.diff { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 6px 10px; margin: 4px 0 8px 24px; overflow-x: auto; }
+.diff .add { color: #1a7f37; background: #dafbe1; display: block; }
+.diff .del { color: #cf222e; background: #ffebe9; display: block; }
+.diff .ctx { display: block; }
+.diff .hunk { color: #57606a; display: block; }
+.empty { color: #57606a; font-style: italic; }
+.peers { border-collapse: collapse; }
+.peers th, .peers td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; }
+[hidden] { display: none !important; }
+`;
+
+const SCRIPT = `
+(function () {
+  var storageKey = document.body.dataset.storageKey;
+  var form = document.getElementById('filters');
+  var items = Array.prototype.slice.call(document.querySelectorAll('.item'));
+  var done = {};
+  try { done = JSON.parse(localStorage.getItem(storageKey) || '{}'); } catch (e) { done = {}; }
+
+  function save() {
+    try { localStorage.setItem(storageKey, JSON.stringify(done)); } catch (e) { /* private mode */ }
+  }
+
+  function apply() {
+    var severity = form.elements.severity.value;
+    var rule = form.elements.rule.value;
+    var dir = form.elements.dir.value;
+    var hideDone = form.elements.hideDone.checked;
+    var doneCount = 0;
+
+    items.forEach(function (item) {
+      var isDone = !!done[item.dataset.key];
+      if (isDone) doneCount++;
+      item.classList.toggle('done', isDone);
+      item.hidden = (severity && item.dataset.severity !== severity)
+        || (rule && item.dataset.rule !== rule)
+        || (dir && item.dataset.dir !== dir)
+        || (hideDone && isDone);
+    });
+    document.querySelectorAll('.file').forEach(function (file) {
+      file.hidden = !file.querySelector('.item:not([hidden])');
+    });
+    document.querySelectorAll('.step').forEach(function (step) {
+      step.hidden = !!step.querySelector('.file') && !step.querySelector('.file:not([hidden])');
+    });
+    document.getElementById('progress').textContent = doneCount + ' of ' + items.length + ' done';
+  }
+
+  items.forEach(function (item) {
+    var box = item.querySelector('input[type=checkbox]');
+    box.checked = !!done[item.dataset.key];
+    box.addEventListener('change', function () {
+      if (box.checked) done[item.dataset.key] = true; else delete done[item.dataset.key];
+      save();
+      apply();
+    });
+  });
+  form.addEventListener('change', apply);
+  apply();
+})();
+`;
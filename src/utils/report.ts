@@ -0,0 +1,338 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MigrationResult, Warning, WarningSeverity } from '../types';
+import { ReportFormat } from './config';
+import { TOOL_VERSION } from './cache';
+import { renderHtml } from './report-html';
+import { getRule } from './rules';
+import { AUDITED_PEERS, PeerAudit } from './peer-audit';
+import { FileRecord } from './files';
+
+export interface ReportInput {
+  projectPath: string;
+  results: MigrationResult[];
+  dryRun: boolean;
+  fromVersion: number;
+  toVersion: number;
+  /** Contents of every file the run touched, before and after, for per-file diffs */
+  fileRecords?: FileRecord[];
+  /** Peer dependency audit of node_modules, when it could run */
+  peerAudit?: PeerAudit | null;
+}
+
+const REPORT_FILES: Record<ReportFormat, string> = {
+  md: 'migration-report.md',
+  html: 'migration-report.html',
+  json: 'migration-report.json',
+  sarif: 'migration-report.sarif',
+  junit: 'migration-report.junit.xml',
+};
+
+// Warnings that no rule claims still need an id in SARIF/JUnit
+const GENERIC_RULE_ID = 'manual-attention';
+
+/**
+ * Write one report per requested format into `outputDir` (default: the
+ * project root). Returns the paths written.
+ */
+export function writeReports(input: ReportInput, formats: ReportFormat[], outputDir?: string): string[] {
+  const dir = path.resolve(input.projectPath, outputDir ?? '.');
+  fs.mkdirSync(dir, { recursive: true });
+
+  return [...new Set(formats)].map(format => {
+    const reportPath = path.join(dir, REPORT_FILES[format]);
+    fs.writeFileSync(reportPath, renderReport(input, format), 'utf-8');
+    return reportPath;
+  });
+}
+
+export function renderReport(input: ReportInput, format: ReportFormat): string {
+  switch (format) {
+    case 'md': return renderMarkdown(input);
+    case 'html': return renderHtml(input);
+    case 'json': return renderJson(input);
+    case 'sarif': return renderSarif(input);
+    case 'junit': return renderJUnit(input);
+  }
+}
+
+/** Path relative to the project root; steps report root files such as angular.json as bare names */
+export function relativeFile(projectPath: string, file: string): string {
+  return file.replace(projectPath, '').replace(/^[\\/]/, '').split(path.sep).join('/');
+}
+
+/** Warnings about the whole project carry the project root as their file */
+export function describeLocation(projectPath: string, warning: Warning): string {
+  const file = relativeFile(projectPath, warning.file) || '(project)';
+  if (!warning.line) return file;
+  return warning.column ? `${file}:${warning.line}:${warning.column}` : `${file}:${warning.line}`;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function renderMarkdown({ projectPath, results, dryRun, peerAudit }: ReportInput): string {
+  const now = new Date().toISOString().slice(0, 19).replace('T', ' ');
+  const lines: string[] = [];
+
+  lines.push(`# Angular Migration Report`);
+  lines.push('');
+  lines.push(`Generated: ${now}`);
+  lines.push(`Mode: ${dryRun ? 'DRY RUN (no files changed)' : 'APPLIED'}`);
+  lines.push('');
+  lines.push('---');
+  lines.push('');
+
+  for (const result of results) {
+    lines.push(`## ${result.step}`);
+    lines.push('');
+
+    if (result.changes.length > 0) {
+      lines.push(`### Changes applied (${result.changes.length})`);
+      lines.push('');
+      for (const change of result.changes) {
+        const shortFile = change.file.replace(projectPath, '').replace(/^[\\/]/, '');
+        if (change.before && change.after) {
+          lines.push(`- **${shortFile}**: ${change.description}`);
+          lines.push(`  - Before: \`${change.before}\``);
+          lines.push(`  - After: \`${change.after}\``);
+        } else {
+          lines.push(`- **${shortFile}**: ${change.description}`);
+        }
+      }
+      lines.push('');
+    } else {
+      lines.push('_No automatic changes in this step._');
+      lines.push('');
+    }
+
+    if (result.warnings.length > 0) {
+      lines.push(`### Manual attention required (${result.warnings.length})`);
+      lines.push('');
+      lines.push('> These items were detected but require manual fixes:');
+      lines.push('');
+      for (const warning of result.warnings) {
+        const severity = warning.severity && warning.severity !== 'warning' ? ` _(${warning.severity})_` : '';
+        const docs = warning.docsUrl ? ` ([docs](${warning.docsUrl}))` : '';
+        lines.push(`- **${describeLocation(projectPath, warning)}**${severity}: ${warning.message}${docs}`);
+      }
+      lines.push('');
+    }
+
+    if (result.errors.length > 0) {
+      lines.push(`### Errors`);
+      lines.push('');
+      for (const error of result.errors) {
+        lines.push(`- **${error.file}**: ${error.message}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('---');
+    lines.push('');
+  }
+
+  if (peerAudit) {
+    lines.push(...renderPeerAuditMarkdown(peerAudit));
+  }
+
+  return lines.join('\n');
+}
+
+function renderPeerAuditMarkdown(audit: PeerAudit): string[] {
+  const lines: string[] = [];
+  const resolved = audit.before.filter(c => c.updatedTo !== undefined);
+  // `||` in a range would end the table cell
+  const cell = (range: string) => `\`${range.replace(/\|/g, '\\|')}\``;
+
+  lines.push(`## Peer dependencies (Angular ${audit.targetMajor})`);
+  lines.push('');
+  lines.push(`${audit.checked} installed package(s) declare peer dependencies on ${AUDITED_PEERS.join(' or ')}.`);
+  lines.push('');
+  if (audit.before.length === 0) {
+    lines.push(`_No conflicts: every installed package allows Angular ${audit.targetMajor}._`);
+    lines.push('');
+    return lines;
+  }
+
+  if (audit.after.length > 0) {
+    lines.push(`### Conflicts left (${audit.after.length})`);
+    lines.push('');
+    lines.push('> `npm install` fails with ERESOLVE until these are upgraded or replaced:');
+    lines.push('');
+    lines.push('| Package | Installed | Peer | Range |');
+    lines.push('|---------|-----------|------|-------|');
+    for (const c of audit.after) {
+      lines.push(`| ${c.name} | ${c.version} | ${c.peer} | ${cell(c.range)} |`);
+    }
+    lines.push('');
+  }
+  if (resolved.length > 0) {
+    lines.push(`### Resolved by the migration (${resolved.length})`);
+    lines.push('');
+    lines.push('| Package | Installed | Peer | Range | package.json now |');
+    lines.push('|---------|-----------|------|-------|------------------|');
+    for (const c of resolved) {
+      lines.push(`| ${c.name} | ${c.version} | ${c.peer} | ${cell(c.range)} | ${cell(c.updatedTo!)} |`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// JSON — the MigrationResult[] of the run, with project-relative paths
+// ---------------------------------------------------------------------------
+
+function renderJson({ projectPath, results, dryRun, fromVersion, toVersion, peerAudit }: ReportInput): string {
+  const rel = (file: string) => relativeFile(projectPath, file);
+  const report = {
+    tool: { name: 'ng-migrate', version: TOOL_VERSION },
+    generatedAt: new Date().toISOString(),
+    mode: dryRun ? 'dry-run' : 'applied',
+    fromVersion,
+    toVersion,
+    totals: {
+      changes: results.reduce((n, r) => n + r.changes.length, 0),
+      warnings: results.reduce((n, r) => n + r.warnings.length, 0),
+      errors: results.reduce((n, r) => n + r.errors.length, 0),
+    },
+    results: results.map(r => ({
+      step: r.step,
+      changes: r.changes.map(c => ({ ...c, file: rel(c.file) })),
+      warnings: r.warnings.map(w => ({ ...w, file: rel(w.file) })),
+      errors: r.errors.map(e => ({ ...e, file: rel(e.file) })),
+    })),
+    peerAudit: peerAudit ? { ...peerAudit, nodeModules: rel(peerAudit.nodeModules) } : null,
+  };
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// SARIF 2.1.0 — warnings and errors, for code scanning annotations on PRs
+// ---------------------------------------------------------------------------
+
+function renderSarif({ projectPath, results }: ReportInput): string {
+  const sarifResults: object[] = [];
+  const ruleIds = new Set<string>();
+
+  for (const result of results) {
+    for (const warning of result.warnings) {
+      const ruleId = warning.rule ?? GENERIC_RULE_ID;
+      const file = relativeFile(projectPath, warning.file);
+      ruleIds.add(ruleId);
+      sarifResults.push({
+        ruleId,
+        level: SARIF_LEVELS[warning.severity ?? 'warning'],
+        message: { text: warning.message },
+        ...(file ? { locations: [sarifLocation(file, warning)] } : {}),
+        properties: { step: result.step, ...(warning.category ? { category: warning.category } : {}) },
+      });
+    }
+    for (const error of result.errors) {
+      ruleIds.add('migration-error');
+      sarifResults.push({
+        ruleId: 'migration-error',
+        level: 'error',
+        message: { text: error.message },
+        // Step failures are reported against the pseudo-file "migrator"
+        ...(error.file === 'migrator' ? {} : { locations: [sarifLocation(relativeFile(projectPath, error.file))] }),
+        properties: { step: result.step },
+      });
+    }
+  }
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'ng-migrate',
+          version: TOOL_VERSION,
+          rules: [...ruleIds].sort().map(sarifRule),
+        },
+      },
+      originalUriBaseIds: { '%SRCROOT%': { uri: 'file:///' + projectPath.replace(/\\/g, '/').replace(/^\//, '') + '/' } },
+      results: sarifResults,
+    }],
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+const SARIF_LEVELS: Record<WarningSeverity, string> = { error: 'error', warning: 'warning', info: 'note' };
+
+function sarifRule(id: string): object {
+  const rule = getRule(id);
+  if (!rule) return { id, name: id };
+  return {
+    id,
+    name: id,
+    shortDescription: { text: rule.description },
+    ...(rule.docsUrl ? { helpUri: rule.docsUrl } : {}),
+    ...(rule.category ? { properties: { category: rule.category } } : {}),
+  };
+}
+
+function sarifLocation(uri: string, position: Pick<Warning, 'line' | 'column' | 'endLine' | 'endColumn'> = {}): object {
+  const { line, column, endLine, endColumn } = position;
+  const region = line ? {
+    startLine: line,
+    ...(column ? { startColumn: column } : {}),
+    ...(endLine ? { endLine } : {}),
+    ...(endColumn ? { endColumn } : {}),
+  } : undefined;
+  return {
+    physicalLocation: {
+      artifactLocation: { uri, uriBaseId: '%SRCROOT%' },
+      ...(region ? { region } : {}),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// JUnit XML — one test suite per step, one failing test case per open item
+// ---------------------------------------------------------------------------
+
+function renderJUnit({ projectPath, results }: ReportInput): string {
+  const lines: string[] = [];
+  const total = results.reduce((n, r) => n + r.warnings.length + r.errors.length, 0);
+  const failures = results.reduce((n, r) => n + r.warnings.length, 0);
+  const errors = results.reduce((n, r) => n + r.errors.length, 0);
+
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<testsuites name="ng-migrate" tests="${total}" failures="${failures}" errors="${errors}">`);
+
+  for (const result of results) {
+    const items = result.warnings.length + result.errors.length;
+    // A step without open items still shows up as one passing test
+    lines.push(`  <testsuite name="${xml(result.step)}" tests="${Math.max(items, 1)}" failures="${result.warnings.length}" errors="${result.errors.length}">`);
+    if (items === 0) {
+      lines.push(`    <testcase classname="${xml(result.step)}" name="no manual attention required"/>`);
+    }
+    for (const warning of result.warnings) {
+      lines.push(`    <testcase classname="${xml(warning.rule ?? GENERIC_RULE_ID)}" name="${xml(describeLocation(projectPath, warning))}">`);
+      lines.push(`      <failure type="${warning.severity ?? 'warning'}" message="${xml(warning.message)}"/>`);
+      lines.push('    </testcase>');
+    }
+    for (const error of result.errors) {
+      lines.push(`    <testcase classname="migration-error" name="${xml(relativeFile(projectPath, error.file))}">`);
+      lines.push(`      <error message="${xml(error.message)}"/>`);
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+}
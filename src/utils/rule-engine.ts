@@ -0,0 +1,238 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { ImplementedKindToNodeMappings, Node, SourceFile, SyntaxKind } from 'ts-morph';
+import { Change, MigrationContext, Warning } from '../types';
+import { isRuleSelected } from './rules';
+import { getLoadedPluginFiles } from './plugins';
+import { nodeLocation } from './location';
+
+/**
+ * Per-file API handed to every visitor of an AstRule.
+ */
+export interface AstRuleFile {
+  sourceFile: SourceFile;
+  addChange(description: string): void;
+  /** Pass the offending node so the warning points at its position */
+  addWarning(message: string, node?: Node): void;
+  /**
+   * Schedule an AST edit. Edits run after the traversal, last-scheduled first,
+   * because replacing nodes mid-walk would invalidate nodes not visited yet.
+   */
+  edit(apply: () => void): void;
+}
+
+export type AstVisitors = {
+  [K in keyof ImplementedKindToNodeMappings]?: (node: ImplementedKindToNodeMappings[K], file: AstRuleFile) => void;
+};
+
+/**
+ * A codemod or detector expressed as node-kind handlers. All rules passed to
+ * runAstRules() share one traversal per file instead of each re-walking the tree.
+ */
+export interface AstRule {
+  id: string;
+  /**
+   * The rule never edits and only looks at one file at a time, so with
+   * --concurrency it may run in a worker thread on its own copy of the file.
+   */
+  detectOnly?: boolean;
+  visitors: AstVisitors;
+}
+
+export interface AstRuleOutput {
+  changes: Change[];
+  warnings: Warning[];
+}
+
+type AnyVisitor = (node: Node, file: AstRuleFile) => void;
+
+// Worker threads look rules up by id, so every rule is created through defineAstRule()
+const registeredRules = new Map<string, AstRule>();
+
+export function defineAstRule(rule: AstRule): AstRule {
+  if (registeredRules.has(rule.id)) {
+    throw new Error(`AST rule "${rule.id}" is already defined`);
+  }
+  registeredRules.set(rule.id, rule);
+  return rule;
+}
+
+export function getAstRule(id: string): AstRule | undefined {
+  return registeredRules.get(id);
+}
+
+/**
+ * Walk each source file once and dispatch every node to the rules that
+ * registered a handler for its kind.
+ *
+ * With ctx.concurrency > 1, detect-only rules are run in worker threads over
+ * slices of the files; rules that edit always run on the shared project.
+ * Detect-only rules skip files whose results are in ctx.cache. Rules turned
+ * off with --only / --skip, or finished before a --resume, are dropped up front.
+ */
+export async function runAstRules(
+  sourceFiles: SourceFile[],
+  requested: AstRule[],
+  ctx: MigrationContext
+): Promise<AstRuleOutput> {
+  const rules = requested.filter(r => isRuleSelected(ctx, r));
+  // All of them run in the same pass, so they finish together
+  ctx.progress?.start(rules.map(r => r.id));
+  const output: AstRuleOutput = { changes: [], warnings: [] };
+  const detectors = rules.filter(r => r.detectOnly);
+  const editors = rules.filter(r => !r.detectOnly);
+
+  // A file is analysed again by all detectors unless every one of them has a cached result
+  const hashes = new Map<SourceFile, string>();
+  let toDetect = sourceFiles;
+  if (ctx.cache && detectors.length > 0) {
+    toDetect = [];
+    for (const sf of sourceFiles) {
+      const hash = ctx.cache.hash(sf.getFullText());
+      const hits = detectors.map(r => ctx.cache!.get(r.id, hash));
+      if (hits.every(h => h !== undefined)) {
+        for (const hit of hits) {
+          output.warnings.push(...hit!.map(w => ({ ...w, file: sf.getFilePath() })));
+        }
+      } else {
+        hashes.set(sf, hash);
+        toDetect.push(sf);
+      }
+    }
+  }
+
+  const workers = Math.min(ctx.concurrency, toDetect.length);
+  const parallel = workers > 1 ? detectors : [];
+  const local = detectors.filter(r => !parallel.includes(r));
+
+  // Workers get the file texts before any editor touches them
+  const fromWorkers = parallel.length > 0 ? visitInWorkers(toDetect, parallel, workers) : null;
+  const detected: AstRuleOutput = { changes: [], warnings: [] };
+  if (toDetect.length === sourceFiles.length) {
+    const localIds = new Set(local.map(r => r.id));
+    const shared = visitSourceFiles(sourceFiles, [...editors, ...local]);
+    output.changes.push(...shared.changes);
+    for (const w of shared.warnings) {
+      (w.rule && localIds.has(w.rule) ? detected : output).warnings.push(w);
+    }
+  } else {
+    // Detectors first, so they see the same code as in a single shared pass
+    merge(detected, visitSourceFiles(toDetect, local));
+    merge(output, visitSourceFiles(sourceFiles, editors));
+  }
+  if (fromWorkers) merge(detected, await fromWorkers);
+
+  if (ctx.cache) {
+    for (const sf of toDetect) {
+      for (const rule of detectors) {
+        const warnings = detected.warnings
+          .filter(w => w.rule === rule.id && w.file === sf.getFilePath())
+          .map(({ file, ...rest }) => rest);
+        ctx.cache.set(rule.id, hashes.get(sf)!, warnings);
+      }
+    }
+  }
+
+  merge(output, detected);
+  return output;
+}
+
+function merge(into: AstRuleOutput, from: AstRuleOutput): void {
+  into.changes.push(...from.changes);
+  into.warnings.push(...from.warnings);
+}
+
+export function visitSourceFiles(sourceFiles: SourceFile[], rules: AstRule[]): AstRuleOutput {
+  const changes: Change[] = [];
+  const warnings: Warning[] = [];
+  if (rules.length === 0) return { changes, warnings };
+
+  const byKind = new Map<SyntaxKind, Array<{ rule: AstRule; visit: AnyVisitor }>>();
+  for (const rule of rules) {
+    for (const [kind, visitor] of Object.entries(rule.visitors)) {
+      const key = Number(kind) as SyntaxKind;
+      const list = byKind.get(key) ?? [];
+      list.push({ rule, visit: visitor as AnyVisitor });
+      byKind.set(key, list);
+    }
+  }
+
+  for (const sf of sourceFiles) {
+    const edits: Array<() => void> = [];
+    const files = new Map<AstRule, AstRuleFile>(rules.map(rule => [rule, {
+      sourceFile: sf,
+      addChange: description => changes.push({ file: sf.getFilePath(), description, rule: rule.id }),
+      addWarning: (message, node) => warnings.push({
+        file: sf.getFilePath(),
+        message,
+        ...(node ? nodeLocation(node) : {}),
+        rule: rule.id,
+      }),
+      edit: apply => edits.push(apply),
+    }]));
+
+    sf.forEachDescendant(node => {
+      const visitors = byKind.get(node.getKind());
+      if (!visitors) return;
+      for (const { rule, visit } of visitors) {
+        visit(node, files.get(rule)!);
+      }
+    });
+
+    for (let i = edits.length - 1; i >= 0; i--) {
+      edits[i]();
+    }
+  }
+
+  return { changes, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Worker threads
+// ---------------------------------------------------------------------------
+
+export interface RuleWorkerInput {
+  ruleIds: string[];
+  /** Plugin modules to load first, since they may define some of the rules */
+  modules: string[];
+  files: Array<{ path: string; text: string }>;
+}
+
+async function visitInWorkers(
+  sourceFiles: SourceFile[],
+  rules: AstRule[],
+  workerCount: number
+): Promise<AstRuleOutput> {
+  // Round-robin keeps slices similar in size without measuring files
+  const slices: RuleWorkerInput[] = Array.from({ length: workerCount }, () => ({
+    ruleIds: rules.map(r => r.id),
+    modules: getLoadedPluginFiles(),
+    files: [],
+  }));
+  sourceFiles.forEach((sf, i) => {
+    slices[i % workerCount].files.push({ path: sf.getFilePath(), text: sf.getFullText() });
+  });
+
+  const outputs = await Promise.all(slices.map(runWorker));
+  return {
+    changes: outputs.flatMap(o => o.changes),
+    warnings: outputs.flatMap(o => o.warnings),
+  };
+}
+
+function runWorker(input: RuleWorkerInput): Promise<AstRuleOutput> {
+  // Under ts-node the worker entry is a .ts file, which Worker cannot load directly
+  const ext = path.extname(__filename);
+  const workerFile = path.join(__dirname, `rule-worker${ext}`);
+  const worker = ext === '.ts'
+    ? new Worker(`require('ts-node/register'); require(${JSON.stringify(workerFile)});`, { eval: true, workerData: input })
+    : new Worker(workerFile, { workerData: input });
+
+  return new Promise((resolve, reject) => {
+    worker.once('message', (output: AstRuleOutput) => resolve(output));
+    worker.once('error', reject);
+    worker.once('exit', code => {
+      if (code !== 0) reject(new Error(`Rule worker exited with code ${code}`));
+    });
+  });
+}
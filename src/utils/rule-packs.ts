@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { SourceFile } from 'ts-morph';
+import { Change, MigrationContext, Warning } from '../types';
+import { moveImport, removeFromNgModuleArrays, removeObsoleteImport, renameNamedImport } from './codemods';
+import { LoadedPlugin, PluginRule, registerPlugin } from './plugins';
+
+interface RulePackEntryBase {
+  id: string;
+  description?: string;
+  /** Reported once for every file the entry changed */
+  warning?: string;
+}
+
+export type RulePackEntry = RulePackEntryBase & (
+  | { type: 'renameNamedImport'; module: string; from: string; to: string }
+  | { type: 'moveImport'; symbol: string; from: string; to: string }
+  | { type: 'removeObsoleteImport'; module: string; symbol: string }
+  | { type: 'removeFromNgModuleArrays'; symbol: string }
+);
+
+/**
+ * A JSON or YAML file of import renames, moves and removals, grouped by the
+ * Angular major they migrate to. Each entry becomes an auto-fix rule that
+ * runs like a plugin rule, after the built-in step of its version.
+ */
+export interface RulePack {
+  name?: string;
+  versions: Record<string, RulePackEntry[]>;
+}
+
+const REQUIRED_FIELDS: Record<RulePackEntry['type'], string[]> = {
+  renameNamedImport: ['module', 'from', 'to'],
+  moveImport: ['symbol', 'from', 'to'],
+  removeObsoleteImport: ['module', 'symbol'],
+  removeFromNgModuleArrays: ['symbol'],
+};
+
+export function loadRulePacks(files: string[], baseDir: string): LoadedPlugin[] {
+  return files.map(file => {
+    const resolved = path.resolve(baseDir, file);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Rule pack not found: ${resolved}`);
+    }
+
+    const text = fs.readFileSync(resolved, 'utf-8');
+    let raw: unknown;
+    try {
+      raw = /\.ya?ml$/i.test(resolved) ? parseYaml(text) : JSON.parse(text);
+    } catch (e) {
+      throw new Error(`Invalid rule pack ${resolved}: ${e instanceof Error ? e.message : e}`);
+    }
+
+    const pack = validateRulePack(raw, path.basename(resolved));
+    const rules = Object.entries(pack.versions).flatMap(([version, entries]) =>
+      entries.map(entry => createPackRule(Number(version), entry))
+    );
+    return registerPlugin(resolved, false, { name: pack.name ?? path.basename(resolved), rules });
+  });
+}
+
+function validateRulePack(raw: unknown, fileName: string): RulePack {
+  const fail = (where: string, message: string) => new Error(`${fileName}: ${where}: ${message}`);
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isObject(raw) || !isObject(raw.versions)) {
+    throw new Error(`${fileName}: expected an object with a "versions" map (target version → list of rules)`);
+  }
+
+  for (const [version, entries] of Object.entries(raw.versions)) {
+    if (!/^\d+$/.test(version)) throw fail(`versions.${version}`, 'keys must be Angular major versions');
+    if (!Array.isArray(entries)) throw fail(`versions.${version}`, 'must be a list of rules');
+
+    entries.forEach((entry: unknown, i) => {
+      const where = `versions.${version}[${i}]`;
+      if (!isObject(entry)) throw fail(where, 'must be an object');
+      if (typeof entry.id !== 'string') throw fail(where, '"id" is required');
+      const required = REQUIRED_FIELDS[entry.type as RulePackEntry['type']];
+      if (!required) {
+        throw fail(where, `unknown type "${entry.type}" (expected ${Object.keys(REQUIRED_FIELDS).join(', ')})`);
+      }
+      for (const field of [...required, 'description', 'warning']) {
+        const optional = !required.includes(field);
+        if (entry[field] === undefined && optional) continue;
+        if (typeof entry[field] !== 'string') throw fail(where, `"${field}" must be a string`);
+      }
+    });
+  }
+
+  return raw as unknown as RulePack;
+}
+
+function createPackRule(step: number, entry: RulePackEntry): PluginRule {
+  return {
+    id: entry.id,
+    step,
+    kind: 'auto-fix',
+    description: entry.description ?? describeEntry(entry),
+    run(ctx: MigrationContext, sourceFiles: SourceFile[]) {
+      const changes = applyEntry(entry, sourceFiles, ctx);
+      const files = [...new Set(changes.map(c => c.file))];
+      const warnings: Warning[] = entry.warning
+        ? files.map(file => ({ file, message: entry.warning! }))
+        : [];
+      return { changes, warnings };
+    },
+  };
+}
+
+function applyEntry(entry: RulePackEntry, sourceFiles: SourceFile[], ctx: MigrationContext): Change[] {
+  switch (entry.type) {
+    case 'renameNamedImport':
+      return renameNamedImport(sourceFiles, entry.module, entry.from, entry.to, ctx);
+    case 'moveImport':
+      return moveImport(sourceFiles, entry.symbol, entry.from, entry.to, ctx);
+    case 'removeObsoleteImport':
+      return removeObsoleteImport(sourceFiles, entry.module, entry.symbol, ctx).changes;
+    case 'removeFromNgModuleArrays':
+      return removeFromNgModuleArrays(sourceFiles, entry.symbol, ctx);
+  }
+}
+
+function describeEntry(entry: RulePackEntry): string {
+  switch (entry.type) {
+    case 'renameNamedImport':
+      return `Rename ${entry.from} imports from ${entry.module} to ${entry.to}`;
+    case 'moveImport':
+      return `Move the ${entry.symbol} import from ${entry.from} to ${entry.to}`;
+    case 'removeObsoleteImport':
+      return `Remove the ${entry.symbol} import from ${entry.module}`;
+    case 'removeFromNgModuleArrays':
+      return `Remove ${entry.symbol} from NgModule arrays`;
+  }
+}
@@ -0,0 +1,26 @@
+import { parentPort, workerData } from 'worker_threads';
+import { Project } from 'ts-morph';
+// Loading the steps defines all built-in rules in this thread's registry
+import '../migrator';
+import { AstRule, RuleWorkerInput, getAstRule, visitSourceFiles } from './rule-engine';
+
+/**
+ * Worker thread entry for runAstRules(): parses its slice of files into a
+ * private in-memory project and runs the requested detect-only rules on it.
+ */
+const input = workerData as RuleWorkerInput;
+input.modules.forEach(file => require(file));
+
+const rules: AstRule[] = input.ruleIds.map(id => {
+  const rule = getAstRule(id);
+  if (!rule) throw new Error(`Unknown AST rule "${id}"`);
+  return rule;
+});
+
+const project = new Project({
+  useInMemoryFileSystem: true,
+  skipFileDependencyResolution: true,
+});
+const sourceFiles = input.files.map(f => project.createSourceFile(f.path, f.text));
+
+parentPort!.postMessage(visitSourceFiles(sourceFiles, rules));
@@ -0,0 +1,121 @@
+import { MigrationContext, Warning, WarningCategory, WarningSeverity } from '../types';
+
+export type RuleKind = 'auto-fix' | 'detect';
+
+/**
+ * Catalog entry for one transformation or check of a migration step.
+ * The id is stable across releases so it can be used with --only/--skip.
+ */
+export interface MigrationRule {
+  id: string;
+  /** Angular major the rule migrates to (the `to` of its step) */
+  step: number;
+  /** auto-fix rules edit files; detect rules only report warnings */
+  kind: RuleKind;
+  description: string;
+  /** What the rule's warnings ask for; behavior-change warnings default to severity info */
+  category?: WarningCategory;
+  /** Severity of the rule's warnings (default: by category, else warning) */
+  severity?: WarningSeverity;
+  docsUrl?: string;
+  /**
+   * The edit is only right for code written for an Angular older than the
+   * step (standalone: false keeps v18 declarations in their NgModules on v19).
+   * check() leaves such rules out of steps the project's Angular has reached.
+   */
+  versionDependent?: boolean;
+}
+
+/** Rules picked with --only / --skip; only === null means all rules */
+export interface RuleSelection {
+  only: string[] | null;
+  skip: string[];
+}
+
+export const ALL_RULES: RuleSelection = { only: null, skip: [] };
+
+const catalog = new Map<string, MigrationRule>();
+
+/**
+ * Register the rules of one step. Returns them keyed like the input, so the
+ * step can guard each block with isRuleEnabled(ctx, rules.someRule).
+ * Rules without a docsUrl link to the Angular update guide for the step.
+ */
+export function defineRules<K extends string>(
+  step: number,
+  rules: Record<K, Omit<MigrationRule, 'step'>>
+): Record<K, MigrationRule> {
+  const defined = {} as Record<K, MigrationRule>;
+  for (const key of Object.keys(rules) as K[]) {
+    defined[key] = defineRule({ docsUrl: updateGuideUrl(step), ...rules[key], step });
+  }
+  return defined;
+}
+
+export function updateGuideUrl(step: number): string {
+  return `https://angular.dev/update-guide?v=${step - 1}.0-${step}.0&l=3`;
+}
+
+export function defineRule(rule: MigrationRule): MigrationRule {
+  if (catalog.has(rule.id)) {
+    throw new Error(`Rule "${rule.id}" is already defined`);
+  }
+  catalog.set(rule.id, rule);
+  return rule;
+}
+
+/** All registered rules, ordered by step and then by definition order */
+export function listRules(): MigrationRule[] {
+  return [...catalog.values()].sort((a, b) => a.step - b.step);
+}
+
+export function getRule(id: string): MigrationRule | undefined {
+  return catalog.get(id);
+}
+
+/** Fill severity, category and docsUrl a warning leaves out from the catalog entry of its rule */
+export function withRuleDetails(warning: Warning): Warning {
+  const rule = warning.rule ? catalog.get(warning.rule) : undefined;
+  const category = warning.category ?? rule?.category;
+  return {
+    ...warning,
+    severity: warning.severity ?? rule?.severity ?? (category === 'behavior-change' ? 'info' : 'warning'),
+    ...(category ? { category } : {}),
+    ...(warning.docsUrl ?? rule?.docsUrl ? { docsUrl: warning.docsUrl ?? rule?.docsUrl } : {}),
+  };
+}
+
+/** Throws if --only/--skip or the config name rules that do not exist */
+export function validateRuleSelection(selection: RuleSelection, configured: string[] = []): void {
+  const unknown = [...(selection.only ?? []), ...selection.skip, ...configured].filter(id => !catalog.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown rule id(s): ${unknown.join(', ')}. Run "ng-migrate list-rules" to see all rules.`);
+  }
+}
+
+/** Options for one rule from the "rules" section of ng-migrate.config.json */
+export function getRuleOptions<T>(ctx: MigrationContext, rule: { id: string }): Partial<T> {
+  return (ctx.config.rules?.[rule.id] ?? {}) as Partial<T>;
+}
+
+/**
+ * Whether a rule block runs. Guard each block with it right before the
+ * block: it also marks the rule as started for ctx.progress, which records
+ * the rules before it as finished.
+ */
+export function isRuleEnabled(ctx: MigrationContext, rule: { id: string }): boolean {
+  if (!isRuleSelected(ctx, rule)) return false;
+  ctx.progress?.start([rule.id]);
+  return true;
+}
+
+/**
+ * isRuleEnabled() without marking the rule as started: for checks ahead of
+ * the block, and for runAstRules(), which starts its rules as one batch.
+ */
+export function isRuleSelected(ctx: MigrationContext, rule: { id: string }): boolean {
+  const { only, skip } = ctx.rules;
+  if (only && !only.includes(rule.id)) return false;
+  if (ctx.progress?.isCompleted(rule.id)) return false;
+  return !skip.includes(rule.id);
+}
@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MigrationStep } from '../types';
+import { FileRecord, ProjectFiles } from './files';
+import { JOURNAL_DIR } from './journal';
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface StepState {
+  name: string;
+  from: number;
+  to: number;
+  status: StepStatus;
+  /** Files written so far by this step (relative to the project root) */
+  writtenFiles: string[];
+  /** Rules of this step whose edits are saved; --resume skips them */
+  completedRules: string[];
+}
+
+/** Options that decide which steps and rules a run has; --resume needs the same */
+export interface RunOptions {
+  /** Names of the loaded plugins and rule packs */
+  plugins: string[];
+  only: string[] | null;
+  skip: string[];
+  skipPackageJson: boolean;
+}
+
+/**
+ * Checkpoint of a multi-step run, stored in .ng-migrate/state.json and updated
+ * as the run progresses, so an interrupted run can continue with --resume
+ * instead of guessing --from from an already bumped package.json.
+ */
+export interface RunState {
+  fromVersion: number;
+  toVersion: number;
+  startedAt: string;
+  updatedAt: string;
+  /** Missing in state files of older versions */
+  options?: RunOptions;
+  steps: StepState[];
+  /**
+   * Content of each written file before the run first touched it (relative
+   * path → null if the run created it). Kept across --resume, so the journal
+   * of the resumed run covers the writes of the interrupted one too.
+   */
+  originals?: Record<string, string | null>;
+}
+
+/**
+ * Rule checkpoints within one step. isRuleEnabled() starts each rule block;
+ * starting one means the rules started before it are done, so their source
+ * edits are saved and their ids recorded.
+ */
+export interface RuleProgress {
+  /** Finished in an earlier, interrupted attempt at the step */
+  isCompleted(id: string): boolean;
+  start(ids: string[]): void;
+  /** The step ran to its end: the rules still running are done too */
+  finish(): void;
+}
+
+export function createRuleProgress(completed: string[], checkpoint: (finished: string[]) => void): RuleProgress {
+  let running: string[] = [];
+  return {
+    isCompleted: id => completed.includes(id),
+    start(ids) {
+      // runAstRules() restarting a rule its guard already started is still the same block
+      const finished = running.filter(id => !ids.includes(id));
+      if (finished.length > 0) checkpoint(finished);
+      running = ids;
+    },
+    finish() {
+      this.start([]);
+    },
+  };
+}
+
+function statePath(projectPath: string): string {
+  return path.join(projectPath, JOURNAL_DIR, 'state.json');
+}
+
+export function createRunState(steps: MigrationStep[], fromVersion: number, toVersion: number, options: RunOptions): RunState {
+  const now = new Date().toISOString();
+  return {
+    fromVersion,
+    toVersion,
+    startedAt: now,
+    updatedAt: now,
+    options,
+    steps: steps.map(s => ({ name: s.name, from: s.from, to: s.to, status: 'pending', writtenFiles: [], completedRules: [] })),
+    originals: {},
+  };
+}
+
+/**
+ * Before/after of every file the run touched, interrupted attempts included.
+ * After --resume, `records` of the current attempt take the interrupted
+ * attempt's output as "before"; the originals recorded in the state fix that
+ * and add the files only the interrupted attempt wrote.
+ */
+export function getRunRecords(projectPath: string, state: RunState, records: FileRecord[], files: ProjectFiles): FileRecord[] {
+  const current = new Map(records.map(r => [r.path, r]));
+  const merged: FileRecord[] = [];
+  for (const [relPath, before] of Object.entries(state.originals ?? {})) {
+    const filePath = path.resolve(projectPath, relPath);
+    current.delete(filePath);
+    // Rolled back steps leave files as they were, or not there at all
+    const after = files.exists(filePath) ? files.read(filePath) : null;
+    if (after !== null && after !== before) {
+      merged.push({ path: filePath, before, after });
+    }
+  }
+  return [...merged, ...current.values()];
+}
+
+/** What differs between the recorded run's options and the current ones, empty if nothing */
+export function diffRunOptions(recorded: RunOptions, current: RunOptions): string[] {
+  const show = (value: unknown) => (Array.isArray(value) ? (value.length > 0 ? value.join(', ') : 'none') : String(value));
+  const differences: string[] = [];
+  for (const key of Object.keys(current) as Array<keyof RunOptions>) {
+    const was = recorded[key] === null ? 'all' : show(recorded[key]);
+    const now = current[key] === null ? 'all' : show(current[key]);
+    if (was !== now) differences.push(`${key}: ${was} → ${now}`);
+  }
+  return differences;
+}
+
+export function readRunState(projectPath: string): RunState | null {
+  const filePath = statePath(projectPath);
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RunState;
+}
+
+export function saveRunState(projectPath: string, state: RunState): void {
+  state.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.join(projectPath, JOURNAL_DIR), { recursive: true });
+  fs.writeFileSync(statePath(projectPath), JSON.stringify(state, null, 2) + '\n', 'utf-8');
+}
+
+/** First step of the recorded run that did not complete, or null if all did */
+export function getResumeStep(state: RunState): StepState | null {
+  return state.steps.find(s => s.status !== 'completed') ?? null;
+}
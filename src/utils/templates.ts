@@ -0,0 +1,95 @@
+import * as path from 'path';
+import { Node, ObjectLiteralExpression, SourceFile } from 'ts-morph';
+import { MigrationContext } from '../types';
+import { WarningLocation } from './location';
+
+/**
+ * A template or stylesheet of a component: inline in the decorator or in the
+ * file its templateUrl / styleUrl(s) points to.
+ */
+export interface ComponentResource {
+  /** The component's .ts file for inline resources, otherwise the referenced file */
+  file: string;
+  text: string;
+  /** Argument of the @Component decorator the resource belongs to */
+  metadata: ObjectLiteralExpression;
+  /** 1-based position in `file` of an offset into `text` */
+  locate(offset: number): { line: number; column: number };
+}
+
+export interface ResourceMatch extends WarningLocation {
+  resource: ComponentResource;
+}
+
+export function getComponentTemplates(sourceFiles: SourceFile[], ctx: MigrationContext): ComponentResource[] {
+  return getComponentResources(sourceFiles, ctx, ['template'], ['templateUrl']);
+}
+
+export function getComponentStyles(sourceFiles: SourceFile[], ctx: MigrationContext): ComponentResource[] {
+  return getComponentResources(sourceFiles, ctx, ['styles'], ['styleUrl', 'styleUrls']);
+}
+
+/** Every match of `pattern` (which must have the g flag) in the given resources */
+export function findInResources(resources: ComponentResource[], pattern: RegExp): ResourceMatch[] {
+  const matches: ResourceMatch[] = [];
+  for (const resource of resources) {
+    for (const match of resource.text.matchAll(pattern)) {
+      const start = resource.locate(match.index!);
+      const end = resource.locate(match.index! + match[0].length);
+      matches.push({ resource, line: start.line, column: start.column, endLine: end.line, endColumn: end.column });
+    }
+  }
+  return matches;
+}
+
+function getComponentResources(
+  sourceFiles: SourceFile[],
+  ctx: MigrationContext,
+  inlineProps: string[],
+  urlProps: string[]
+): ComponentResource[] {
+  const resources: ComponentResource[] = [];
+
+  for (const sf of sourceFiles) {
+    for (const cls of sf.getClasses()) {
+      const metadata = cls.getDecorator('Component')?.getArguments()[0];
+      if (!Node.isObjectLiteralExpression(metadata)) continue;
+
+      for (const name of [...inlineProps, ...urlProps]) {
+        const prop = metadata.getProperty(name);
+        if (!Node.isPropertyAssignment(prop)) continue;
+        const init = prop.getInitializer();
+        const literals = Node.isArrayLiteralExpression(init) ? init.getElements() : init ? [init] : [];
+
+        for (const literal of literals) {
+          if (!Node.isStringLiteral(literal) && !Node.isNoSubstitutionTemplateLiteral(literal)) continue;
+
+          if (inlineProps.includes(name)) {
+            // Skip the opening quote; escapes inside the literal may shift columns slightly
+            const start = literal.getStart() + 1;
+            resources.push({
+              file: sf.getFilePath(),
+              text: literal.getLiteralText(),
+              metadata,
+              locate: offset => sf.getLineAndColumnAtPos(start + offset),
+            });
+            continue;
+          }
+
+          const filePath = path.resolve(path.dirname(sf.getFilePath()), literal.getLiteralText());
+          if (!ctx.files.exists(filePath)) continue;
+          const text = ctx.files.read(filePath);
+          resources.push({ file: filePath, text, metadata, locate: offset => locateInText(text, offset) });
+        }
+      }
+    }
+  }
+
+  return resources;
+}
+
+function locateInText(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
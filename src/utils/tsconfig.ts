@@ -0,0 +1,107 @@
+import { globSync } from 'glob';
+import { ts } from 'ts-morph';
+import { MigrationContext } from '../types';
+import { getSourceGlobs } from './config';
+import { WarningLocation } from './location';
+
+export interface RemovedCompilerOption extends WarningLocation {
+  file: string;
+  /** The option's value as written, e.g. `false` */
+  value: string;
+}
+
+/** tsconfig.json, tsconfig.app.json, projects/x/tsconfig.lib.json, ... */
+export function getTsConfigFiles(ctx: MigrationContext): string[] {
+  return globSync('**/tsconfig*.json', {
+    cwd: ctx.projectPath,
+    ignore: [...getSourceGlobs(ctx.config).exclude, '**/node_modules/**'],
+    absolute: true,
+  }).sort();
+}
+
+/**
+ * Remove an option from `angularCompilerOptions` in every tsconfig of the
+ * workspace, and `angularCompilerOptions` itself once it is empty. tsconfig
+ * files are JSON with comments, so the property is cut out of the text rather
+ * than the file being re-serialised.
+ */
+export function removeAngularCompilerOption(ctx: MigrationContext, option: string): RemovedCompilerOption[] {
+  const removed: RemovedCompilerOption[] = [];
+
+  for (const file of getTsConfigFiles(ctx)) {
+    const text = ctx.files.read(file);
+    const json = ts.parseJsonText(file, text);
+    const root = json.statements[0]?.expression;
+    if (!root || !ts.isObjectLiteralExpression(root)) continue;
+
+    const compilerOptions = findProperty(root, 'angularCompilerOptions');
+    if (!compilerOptions || !ts.isObjectLiteralExpression(compilerOptions.initializer)) continue;
+
+    const props = compilerOptions.initializer.properties;
+    const index = props.findIndex(p => ts.isPropertyAssignment(p) && propertyName(p) === option);
+    if (index === -1) continue;
+
+    const prop = props[index] as ts.PropertyAssignment;
+    const start = json.getLineAndCharacterOfPosition(prop.getStart(json));
+    const end = json.getLineAndCharacterOfPosition(prop.getEnd());
+    removed.push({
+      file,
+      value: prop.initializer.getText(json),
+      line: start.line + 1,
+      column: start.character + 1,
+      endLine: end.line + 1,
+      endColumn: end.character + 1,
+    });
+    // Without its last option the section goes too, rather than staying as `{ }`
+    ctx.files.write(file, props.length === 1
+      ? removeProperty(text, json, root.properties, root.properties.indexOf(compilerOptions))
+      : removeProperty(text, json, props, index));
+  }
+
+  return removed;
+}
+
+function findProperty(obj: ts.ObjectLiteralExpression, name: string): ts.PropertyAssignment | undefined {
+  return obj.properties.find((p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && propertyName(p) === name);
+}
+
+function propertyName(prop: ts.PropertyAssignment): string | undefined {
+  return ts.isStringLiteral(prop.name) || ts.isIdentifier(prop.name) ? prop.name.text : undefined;
+}
+
+/** Cut a property and its comma; a property on its own line takes the whole line with it */
+function removeProperty(
+  text: string,
+  json: ts.JsonSourceFile,
+  props: ts.NodeArray<ts.ObjectLiteralElementLike>,
+  index: number
+): string {
+  const prop = props[index];
+  let start = prop.getStart(json);
+  let end = prop.getEnd();
+
+  const trailingComma = /^[ \t]*,/.exec(text.slice(end));
+  if (trailingComma) end += trailingComma[0].length;
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  // A comment after the property on its line goes with it
+  const restOfLine = /^[ \t]*(\/\/[^\n]*)?(\n|$)/.exec(text.slice(end));
+  if (restOfLine && /^[ \t]*$/.test(text.slice(lineStart, start))) {
+    start = lineStart;
+    end += restOfLine[0].length;
+  } else if (trailingComma) {
+    end += /^[ \t]*/.exec(text.slice(end))![0].length;
+  }
+
+  let result = text.slice(0, start) + text.slice(end);
+
+  // The last property had no comma of its own: drop the one before it
+  if (!trailingComma && index > 0) {
+    const comma = text.indexOf(',', props[index - 1].getEnd());
+    if (comma !== -1 && comma < start) {
+      result = result.slice(0, comma) + result.slice(comma + 1);
+    }
+  }
+
+  return result;
+}
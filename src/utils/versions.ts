@@ -0,0 +1,278 @@
+import { MigratorConfig } from './config';
+
+/**
+ * Versions that go together with one Angular major. Ranges are what a fresh
+ * `ng update` of that major would write to package.json.
+ */
+export interface VersionMatrixRow {
+  /** @angular/core and the other framework packages, @angular/localize included */
+  framework: string;
+  /** @angular/cli, @angular-devkit/*, @schematics/angular, @angular/ssr, @angular/pwa, @angular/build */
+  tooling: string;
+  /** @angular/cdk, @angular/material and the other angular/components packages */
+  components: string;
+  angularEslint: string;
+  ngPackagr: string;
+  typescript: string;
+  zoneJs: string;
+  /** Left alone when the major does not need a newer rxjs than the previous one */
+  rxjs?: string;
+  /** Supported Node.js versions, the engines.node range */
+  node: string;
+}
+
+export const VERSION_MATRIX: Record<number, VersionMatrixRow> = {
+  15: {
+    framework: '^15.2.0', tooling: '^15.2.0', components: '^15.2.0', angularEslint: '^15.2.0', ngPackagr: '^15.2.0',
+    typescript: '~4.9.0', zoneJs: '~0.12.0', node: '^14.20.0 || ^16.13.0 || ^18.10.0',
+  },
+  16: {
+    framework: '^16.2.0', tooling: '^16.2.0', components: '^16.2.0', angularEslint: '^16.3.0', ngPackagr: '^16.2.0',
+    typescript: '~5.1.0', zoneJs: '~0.13.0', rxjs: '~7.8.0', node: '^16.14.0 || ^18.10.0',
+  },
+  17: {
+    framework: '^17.3.0', tooling: '^17.3.0', components: '^17.3.0', angularEslint: '^17.5.0', ngPackagr: '^17.3.0',
+    typescript: '~5.2.0', zoneJs: '~0.14.0', node: '^18.13.0 || ^20.9.0',
+  },
+  18: {
+    framework: '^18.2.0', tooling: '^18.2.0', components: '^18.2.0', angularEslint: '^18.4.0', ngPackagr: '^18.2.0',
+    typescript: '~5.4.0', zoneJs: '~0.14.0', node: '^18.19.1 || ^20.11.1 || >=22.0.0',
+  },
+  19: {
+    framework: '^19.2.0', tooling: '^19.2.0', components: '^19.2.0', angularEslint: '^19.8.0', ngPackagr: '^19.2.0',
+    typescript: '~5.6.0', zoneJs: '~0.15.0', node: '^18.19.1 || ^20.11.1 || >=22.0.0',
+  },
+  20: {
+    framework: '^20.3.0', tooling: '^20.3.0', components: '^20.2.0', angularEslint: '^20.3.0', ngPackagr: '^20.3.0',
+    typescript: '~5.8.0', zoneJs: '~0.15.0', node: '^20.19.0 || ^22.12.0 || >=24.0.0',
+  },
+};
+
+/** Key of a config override that sets engines.node instead of a package */
+export const NODE_ENGINES_KEY = 'node';
+
+const FRAMEWORK_PACKAGES = [
+  '@angular/animations', '@angular/common', '@angular/compiler', '@angular/compiler-cli', '@angular/core',
+  '@angular/elements', '@angular/forms', '@angular/language-service', '@angular/localize',
+  '@angular/platform-browser', '@angular/platform-browser-dynamic', '@angular/platform-server',
+  '@angular/router', '@angular/service-worker', '@angular/upgrade',
+];
+
+/** Tooling packages with the major they were first published in */
+const TOOLING_PACKAGES: Record<string, number> = {
+  '@angular/cli': 0,
+  '@angular/pwa': 0,
+  '@angular-devkit/architect': 0,
+  '@angular-devkit/build-angular': 0,
+  '@angular-devkit/core': 0,
+  '@angular-devkit/schematics': 0,
+  '@schematics/angular': 0,
+  '@angular/ssr': 17,
+  '@angular/build': 18,
+};
+
+const COMPONENTS_PACKAGES = [
+  '@angular/cdk', '@angular/material', '@angular/material-moment-adapter', '@angular/material-luxon-adapter',
+  '@angular/material-date-fns-adapter', '@angular/google-maps', '@angular/youtube-player',
+];
+
+const ANGULAR_ESLINT_PACKAGES: Record<string, number> = {
+  '@angular-eslint/builder': 0,
+  '@angular-eslint/eslint-plugin': 0,
+  '@angular-eslint/eslint-plugin-template': 0,
+  '@angular-eslint/schematics': 0,
+  '@angular-eslint/template-parser': 0,
+  'angular-eslint': 18,
+};
+
+/**
+ * Release lines of third-party libraries that have to move in lockstep with
+ * Angular, keyed by Angular major. `@scope/*` covers every package of a scope
+ * without an entry of its own. A major missing from a library's entry has no
+ * compatible release (yet).
+ */
+export const ECOSYSTEM_LIBRARIES: Record<string, Record<number, string>> = {
+  '@ngrx/*': { 15: '^15.4.0', 16: '^16.3.0', 17: '^17.2.0', 18: '^18.1.0', 19: '^19.2.0', 20: '^20.0.0' },
+  '@ngrx/signals': { 17: '^17.2.0', 18: '^18.1.0', 19: '^19.2.0', 20: '^20.0.0' },
+  '@ngrx/operators': { 18: '^18.1.0', 19: '^19.2.0', 20: '^20.0.0' },
+  '@ngx-translate/core': { 15: '^14.0.0', 16: '^15.0.0', 17: '^15.0.0', 18: '^15.0.0', 19: '^16.0.0', 20: '^16.0.0' },
+  '@ngx-translate/http-loader': { 15: '^7.0.0', 16: '^8.0.0', 17: '^8.0.0', 18: '^8.0.0', 19: '^16.0.0', 20: '^16.0.0' },
+  '@ng-bootstrap/ng-bootstrap': { 15: '^14.2.0', 16: '^15.1.0', 17: '^16.0.0', 18: '^17.0.0', 19: '^18.0.0', 20: '^19.0.0' },
+  'primeng': { 15: '^15.4.1', 16: '^16.9.1', 17: '^17.18.0', 18: '^17.18.0', 19: '^19.1.0', 20: '^20.0.0' },
+};
+
+/** The ECOSYSTEM_LIBRARIES entry of a package, undefined for packages the table doesn't track */
+export function getEcosystemLibrary(name: string): Record<number, string> | undefined {
+  const scope = name.startsWith('@') ? name.split('/')[0] : null;
+  return ECOSYSTEM_LIBRARIES[name] ?? (scope ? ECOSYSTEM_LIBRARIES[`${scope}/*`] : undefined);
+}
+
+function getRow(major: number): VersionMatrixRow {
+  const row = VERSION_MATRIX[major];
+  if (!row) {
+    throw new Error(`No version matrix entry for Angular ${major} (known: ${Object.keys(VERSION_MATRIX).join(', ')})`);
+  }
+  return row;
+}
+
+/**
+ * Package ranges for an Angular major: the matrix row expanded to package
+ * names, with the config's `versions[major]` entries applied on top.
+ */
+export function getPackageVersions(major: number, config: MigratorConfig = {}): Record<string, string> {
+  const row = getRow(major);
+  const versions: Record<string, string> = {};
+
+  for (const name of FRAMEWORK_PACKAGES) versions[name] = row.framework;
+  for (const [name, since] of Object.entries(TOOLING_PACKAGES)) {
+    if (major >= since) versions[name] = row.tooling;
+  }
+  for (const name of COMPONENTS_PACKAGES) versions[name] = row.components;
+  for (const [name, since] of Object.entries(ANGULAR_ESLINT_PACKAGES)) {
+    if (major >= since) versions[name] = row.angularEslint;
+  }
+  versions['ng-packagr'] = row.ngPackagr;
+  versions['typescript'] = row.typescript;
+  versions['zone.js'] = row.zoneJs;
+  if (row.rxjs) versions['rxjs'] = row.rxjs;
+
+  const overrides = { ...config.versions?.[String(major)] };
+  delete overrides[NODE_ENGINES_KEY];
+  return { ...versions, ...overrides };
+}
+
+/** engines.node range for an Angular major, from the config's `versions[major].node` if set */
+export function getNodeEngines(major: number, config: MigratorConfig = {}): string {
+  return config.versions?.[String(major)]?.[NODE_ENGINES_KEY] ?? getRow(major).node;
+}
+
+/**
+ * Whether a Node.js version as found in engines.node, .nvmrc or .node-version
+ * falls within a range of `^x.y.z` / `>=x.y.z` alternatives. A bare major
+ * ("22" in .nvmrc) installs the latest release of that line, so it matches
+ * any alternative of the same major. Null when the version can't be read.
+ */
+export function isNodeVersionAllowed(version: string, range: string): boolean | null {
+  const parsed = minVersion(version);
+  if (!parsed) return null;
+  const bareMajor = /^\s*v?\d+\s*$/.test(version);
+
+  return range.split('||').some(alternative => {
+    const match = /^\s*(\^|>=)\s*v?(.+?)\s*$/.exec(alternative);
+    const floor = match ? minVersion(match[2]) : null;
+    if (!match || !floor) return false;
+    if (match[1] === '>=') return bareMajor ? parsed[0] >= floor[0] : compareVersions(parsed, floor) >= 0;
+    return parsed[0] === floor[0] && (bareMajor || compareVersions(parsed, floor) >= 0);
+  });
+}
+
+/**
+ * Lowest version a range allows, read from its first version number:
+ * '^5.4.2' → [5, 4, 2], '>=18.13' → [18, 13, 0], 'v20' → [20, 0, 0].
+ * Null for tags and URLs ('latest', 'lts/*', 'file:...').
+ */
+export function minVersion(range: string): [number, number, number] | null {
+  const match = /(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?/.exec(range);
+  if (!match || /^\s*(file|link|git|http|npm):/.test(range)) return null;
+  const part = (s: string | undefined) => (s && /^\d+$/.test(s) ? parseInt(s, 10) : 0);
+  return [parseInt(match[1], 10), part(match[2]), part(match[3])];
+}
+
+/** Negative, zero or positive like a sort comparator */
+export function compareVersions(a: [number, number, number], b: [number, number, number]): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+type Version = [number, number, number];
+
+/** A contiguous part of an npm range; `max: null` is unbounded */
+interface VersionInterval {
+  min: Version;
+  minInclusive: boolean;
+  max: Version | null;
+  maxInclusive: boolean;
+}
+
+/**
+ * Whether an npm range (peerDependencies style: `^15.0.0 || ^16.0.0`,
+ * `>=14.0.0 <18.0.0`, `17.x`, `15 - 17`) allows some release of an Angular
+ * major. Prerelease tags are ignored. Null when the range can't be read.
+ */
+export function rangeAllowsMajor(range: string, major: number): boolean | null {
+  const intervals = parseRange(range);
+  if (!intervals) return null;
+  const line: VersionInterval = { min: [major, 0, 0], minInclusive: true, max: [major + 1, 0, 0], maxInclusive: false };
+  return intervals.some(interval => !isEmpty(intersect(interval, line)));
+}
+
+/** Whether a version such as `15.2.10` satisfies an npm range; null when either can't be read */
+export function rangeAllowsVersion(range: string, version: string): boolean | null {
+  const intervals = parseRange(range);
+  const parsed = minVersion(version);
+  if (!intervals || !parsed) return null;
+  const point: VersionInterval = { min: parsed, minInclusive: true, max: parsed, maxInclusive: true };
+  return intervals.some(interval => !isEmpty(intersect(interval, point)));
+}
+
+function parseRange(range: string): VersionInterval[] | null {
+  const intervals: VersionInterval[] = [];
+  for (const alternative of range.split('||')) {
+    // ">= 15.0.0" and ">=15.0.0" are the same comparator
+    const text = alternative.trim().replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1');
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+    const comparators = hyphen ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`] : text.split(/\s+/).filter(Boolean);
+
+    let interval: VersionInterval = { min: [0, 0, 0], minInclusive: true, max: null, maxInclusive: false };
+    for (const comparator of comparators) {
+      const bounds = parseComparator(comparator);
+      if (!bounds) return null;
+      interval = intersect(interval, bounds);
+    }
+    intervals.push(interval);
+  }
+  return intervals;
+}
+
+function parseComparator(comparator: string): VersionInterval | null {
+  const match = /^(<=|>=|<|>|=|\^|~)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-[\w.]+)?(?:\+[\w.]+)?$/.exec(comparator);
+  if (!match) return null;
+  const op = match[1] ?? '=';
+  // Parts given before the first wildcard: '17.x' → 1, '17.2.1' → 3
+  const wildcard = match.slice(2, 5).findIndex(p => p === undefined || !/^\d+$/.test(p));
+  const given = wildcard === -1 ? 3 : wildcard;
+  const [x, y, z] = match.slice(2, 5).map(p => (p && /^\d+$/.test(p) ? parseInt(p, 10) : 0));
+  const version: Version = [x, y, z];
+  // The first version above the given parts: 17 → 18.0.0, 17.2 → 17.3.0
+  const next: Version = given === 1 ? [x + 1, 0, 0] : given === 2 ? [x, y + 1, 0] : [x, y, z + 1];
+  const from = (min: Version, max: Version | null): VersionInterval => ({ min, minInclusive: true, max, maxInclusive: false });
+
+  if (given === 0) return op === '<' || op === '>' ? null : from([0, 0, 0], null);
+  switch (op) {
+    case '^': return from(version, x > 0 || given === 1 ? [x + 1, 0, 0] : y > 0 || given < 3 ? [0, y + 1, 0] : [0, 0, z + 1]);
+    case '~': return from(version, given === 1 ? [x + 1, 0, 0] : [x, y + 1, 0]);
+    case '>=': return from(version, null);
+    case '>': return given === 3 ? { min: version, minInclusive: false, max: null, maxInclusive: false } : from(next, null);
+    case '<': return from([0, 0, 0], version);
+    case '<=': return given === 3 ? { min: [0, 0, 0], minInclusive: true, max: version, maxInclusive: true } : from([0, 0, 0], next);
+    default: return given === 3 ? { min: version, minInclusive: true, max: version, maxInclusive: true } : from(version, next);
+  }
+}
+
+function intersect(a: VersionInterval, b: VersionInterval): VersionInterval {
+  const minOrder = compareVersions(a.min, b.min);
+  const lower = minOrder > 0 || (minOrder === 0 && !a.minInclusive) ? a : b;
+  let upper: VersionInterval;
+  if (!a.max || !b.max) {
+    upper = a.max ? a : b;
+  } else {
+    const maxOrder = compareVersions(a.max, b.max);
+    upper = maxOrder < 0 || (maxOrder === 0 && !a.maxInclusive) ? a : b;
+  }
+  return { min: lower.min, minInclusive: lower.minInclusive, max: upper.max, maxInclusive: upper.maxInclusive };
+}
+
+function isEmpty(interval: VersionInterval): boolean {
+  if (!interval.max) return false;
+  const order = compareVersions(interval.min, interval.max);
+  return order > 0 || (order === 0 && !(interval.minInclusive && interval.maxInclusive));
+}
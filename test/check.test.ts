@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { check } from '../src/check';
+
+/** A minimal Angular workspace at `major` with the given source files */
+function createProject(major: number, files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-migrate-check-'));
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content, 'utf-8');
+  };
+  write('package.json', JSON.stringify({
+    name: 'app',
+    dependencies: { '@angular/core': `^${major}.0.0`, '@angular/common': `^${major}.0.0` },
+  }, null, 2) + '\n');
+  write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true } }, null, 2) + '\n');
+  for (const [file, content] of Object.entries(files)) write(file, content);
+  return root;
+}
+
+const standaloneComponent = `import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-root',
+  template: '<h1>Hello</h1>',
+})
+export class AppComponent {}
+`;
+
+test('check passes a clean Angular 20 project with standalone components', async () => {
+  const root = createProject(20, { 'src/app/app.component.ts': standaloneComponent });
+  const result = await check({ projectPath: root, toVersion: 20, cache: false });
+
+  assert.deepEqual(result.pendingChanges.map(c => c.description), []);
+  assert.deepEqual(result.outgrownRules, ['standalone-false']);
+  assert.equal(result.passed, true);
+  fs.rmSync(root, { recursive: true });
+});
+
+test('check still adds standalone: false for projects below Angular 19', async () => {
+  const root = createProject(18, { 'src/app/app.component.ts': standaloneComponent });
+  const result = await check({ projectPath: root, toVersion: 20, cache: false });
+
+  assert.deepEqual(result.outgrownRules, []);
+  assert.deepEqual(result.pendingChanges.map(c => c.step), ['Angular 18 → 19']);
+  assert.equal(result.passed, false);
+  fs.rmSync(root, { recursive: true });
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { createFileDiff, createProjectDiff } from '../src/utils/diff';
+import { FileRecord } from '../src/utils/files';
+
+/** Lay out the "before" tree and check the patch applies to it cleanly */
+function gitApplyCheck(records: FileRecord[], root: string): void {
+  for (const r of records) {
+    if (r.before !== null) {
+      fs.mkdirSync(path.dirname(r.path), { recursive: true });
+      fs.writeFileSync(r.path, r.before, 'utf-8');
+    }
+  }
+  const patchFile = path.join(root, '..', `${path.basename(root)}.patch`);
+  fs.writeFileSync(patchFile, createProjectDiff(root, records), 'utf-8');
+  try {
+    execFileSync('git', ['apply', '--check', patchFile], { cwd: root, stdio: 'pipe' });
+  } finally {
+    fs.rmSync(patchFile);
+  }
+}
+
+function tempProject(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'ng-migrate-diff-'));
+}
+
+test('createFileDiff writes a git-style header with project-relative paths', () => {
+  const root = tempProject();
+  const diff = createFileDiff(root, {
+    path: path.join(root, 'src', 'main.ts'),
+    before: 'a\nb\n',
+    after: 'a\nc\n',
+  });
+
+  assert.equal(diff, [
+    'diff --git a/src/main.ts b/src/main.ts',
+    '--- a/src/main.ts',
+    '+++ b/src/main.ts',
+    '@@ -1,2 +1,2 @@',
+    ' a',
+    '-b',
+    '+c',
+    '',
+  ].join('\n'));
+  fs.rmSync(root, { recursive: true });
+});
+
+test('createFileDiff output passes git apply --check', () => {
+  const root = tempProject();
+  const records: FileRecord[] = [
+    {
+      path: path.join(root, 'src', 'app.module.ts'),
+      before: Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n') + '\n',
+      after: Array.from({ length: 20 }, (_, i) => (i === 3 || i === 17 ? `changed ${i}` : `line ${i}`)).join('\n') + '\n',
+    },
+    // Created by the run
+    { path: path.join(root, 'src', 'new.ts'), before: null, after: 'export const x = 1;\n' },
+    // Emptied by the run
+    { path: path.join(root, 'empty.txt'), before: 'gone\n', after: '' },
+    // No trailing newline on either side
+    { path: path.join(root, 'tsconfig.json'), before: '{\n  "a": 1\n}', after: '{\n  "a": 2\n}' },
+  ];
+
+  assert.doesNotThrow(() => gitApplyCheck(records, root));
+  fs.rmSync(root, { recursive: true });
+});
+
+test('createFileDiff marks new files with /dev/null', () => {
+  const root = tempProject();
+  const diff = createFileDiff(root, { path: path.join(root, 'a.ts'), before: null, after: 'x\n' });
+
+  assert.match(diff, /^new file mode 100644\n--- \/dev\/null\n\+\+\+ b\/a\.ts\n@@ -0,0 \+1,1 @@\n\+x\n$/m);
+  fs.rmSync(root, { recursive: true });
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectFiles } from '../src/utils/files';
+
+function tempProject(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'ng-migrate-files-'));
+}
+
+test('rollback restores files written since begin() and deletes created ones', () => {
+  const root = tempProject();
+  const existing = path.join(root, 'app.ts');
+  const created = path.join(root, 'new.ts');
+  fs.writeFileSync(existing, 'original\n');
+
+  const files = new ProjectFiles();
+  files.begin();
+  files.write(existing, 'step 1\n');
+  files.write(existing, 'step 1 again\n');
+  files.write(created, 'created\n');
+  const restored = files.rollback();
+
+  assert.deepEqual(restored.sort(), [existing, created].sort());
+  assert.equal(fs.readFileSync(existing, 'utf-8'), 'original\n');
+  assert.equal(fs.existsSync(created), false);
+  assert.deepEqual(files.getRecords(), []);
+  fs.rmSync(root, { recursive: true });
+});
+
+test('rollback keeps writes of earlier, committed transactions', () => {
+  const root = tempProject();
+  const file = path.join(root, 'app.ts');
+  const createdEarlier = path.join(root, 'early.ts');
+  fs.writeFileSync(file, 'original\n');
+
+  const files = new ProjectFiles();
+  files.begin();
+  files.write(file, 'step 1\n');
+  files.write(createdEarlier, 'step 1\n');
+  files.commit();
+
+  files.begin();
+  files.write(file, 'step 2\n');
+  files.write(createdEarlier, 'step 2\n');
+  files.rollback();
+
+  assert.equal(fs.readFileSync(file, 'utf-8'), 'step 1\n');
+  assert.equal(fs.readFileSync(createdEarlier, 'utf-8'), 'step 1\n');
+  assert.deepEqual(files.getRecords(), [
+    { path: file, before: 'original\n', after: 'step 1\n' },
+    { path: createdEarlier, before: null, after: 'step 1\n' },
+  ]);
+  fs.rmSync(root, { recursive: true });
+});
+
+test('rollback in dry-run mode only resets the in-memory contents', () => {
+  const root = tempProject();
+  const file = path.join(root, 'app.ts');
+  const created = path.join(root, 'new.ts');
+  fs.writeFileSync(file, 'original\n');
+
+  const files = new ProjectFiles(true);
+  files.begin();
+  files.write(file, 'changed\n');
+  files.write(created, 'created\n');
+  assert.equal(files.read(file), 'changed\n');
+  assert.equal(files.exists(created), true);
+  files.rollback();
+
+  assert.equal(files.read(file), 'original\n');
+  assert.equal(files.exists(created), false);
+  assert.equal(fs.readFileSync(file, 'utf-8'), 'original\n');
+  fs.rmSync(root, { recursive: true });
+});
+
+test('rollback without an open transaction does nothing', () => {
+  const files = new ProjectFiles(true);
+  assert.deepEqual(files.rollback(), []);
+  assert.throws(() => {
+    files.begin();
+    files.begin();
+  }, /already open/);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { listJournals, revertJournal, writeJournal } from '../src/utils/journal';
+
+/** A project after a run that changed app.ts and created new.ts, with its journal */
+function migratedProject(): { root: string; app: string; created: string } {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-migrate-journal-'));
+  const app = path.join(root, 'src', 'app.ts');
+  const created = path.join(root, 'new.ts');
+  fs.mkdirSync(path.dirname(app));
+  fs.writeFileSync(app, 'after\n');
+  fs.writeFileSync(created, 'created\n');
+  writeJournal(root, [
+    { path: app, before: 'before\n', after: 'after\n' },
+    { path: created, before: null, after: 'created\n' },
+  ], 15, 16);
+  return { root, app, created };
+}
+
+test('writeJournal stores project-relative paths', () => {
+  const { root } = migratedProject();
+  const [journal] = listJournals(root);
+
+  assert.deepEqual(journal.files.map(f => f.path), ['src/app.ts', 'new.ts']);
+  assert.equal(journal.fromVersion, 15);
+  assert.equal(journal.toVersion, 16);
+  fs.rmSync(root, { recursive: true });
+});
+
+test('revertJournal restores the files and marks the run reverted', () => {
+  const { root, app, created } = migratedProject();
+  const journal = revertJournal(root);
+
+  assert.equal(fs.readFileSync(app, 'utf-8'), 'before\n');
+  assert.equal(fs.existsSync(created), false);
+  assert.ok(journal.revertedAt);
+  assert.equal(listJournals(root)[0].revertedAt, journal.revertedAt);
+  assert.throws(() => revertJournal(root), /No migration run to revert/);
+  assert.throws(() => revertJournal(root, journal.id), /already reverted/);
+  fs.rmSync(root, { recursive: true });
+});
+
+test('revertJournal refuses files modified after the run and touches nothing', () => {
+  const { root, app, created } = migratedProject();
+  fs.writeFileSync(app, 'after\nedited by hand\n');
+
+  assert.throws(() => revertJournal(root), /Refusing to revert .*1 file\(s\) changed since the migration:\n\s+- src\/app\.ts/);
+  assert.equal(fs.readFileSync(app, 'utf-8'), 'after\nedited by hand\n');
+  assert.equal(fs.readFileSync(created, 'utf-8'), 'created\n');
+  assert.equal(listJournals(root)[0].revertedAt, undefined);
+  fs.rmSync(root, { recursive: true });
+});
+
+test('revertJournal refuses files deleted after the run', () => {
+  const { root, created } = migratedProject();
+  fs.rmSync(created);
+
+  assert.throws(() => revertJournal(root), /- new\.ts/);
+  fs.rmSync(root, { recursive: true });
+});
+
+test('revertJournal reports an unknown run id', () => {
+  const { root } = migratedProject();
+  assert.throws(() => revertJournal(root, 'nope'), /No migration run "nope" found/);
+  fs.rmSync(root, { recursive: true });
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { renderHtml } from '../src/utils/report-html';
+
+const projectPath = path.resolve('/project');
+
+test('renderHtml keeps file diffs out of the blocks the filters hide', () => {
+  const html = renderHtml({
+    projectPath,
+    dryRun: true,
+    fromVersion: 16,
+    toVersion: 17,
+    results: [{
+      step: 'Angular 16 → 17',
+      changes: [{ file: path.join(projectPath, 'src/app.ts'), description: 'Renamed RouterLinkWithHref' }],
+      warnings: [],
+      errors: [],
+    }],
+    fileRecords: [
+      { path: path.join(projectPath, 'src/app.ts'), before: 'RouterLinkWithHref\n', after: 'RouterLink\n' },
+      { path: path.join(projectPath, 'angular.json'), before: '{}\n', after: '{ }\n' },
+    ],
+  });
+
+  const blocks = [...html.matchAll(/<details class="([^"]+)"( id="([^"]+)")?/g)].map(m => [m[1], m[3]]);
+  assert.deepEqual(blocks, [
+    ['file', undefined],
+    ['file-diff', 'diff:angular.json'],
+    ['file-diff', 'diff:src/app.ts'],
+  ]);
+  assert.match(html, /<a href="#diff:src\/app\.ts">/);
+});
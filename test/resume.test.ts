@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { migrate, MigratorOptions } from '../src/migrator';
+import { JOURNAL_DIR, listJournals, revertJournal } from '../src/utils/journal';
+import { SilentLogger } from '../src/utils/logger';
+import { readRunState, saveRunState } from '../src/utils/state';
+
+const serverModule = `import { NgModule } from '@angular/core';
+import { TransferState } from '@angular/platform-browser';
+
+@NgModule({ providers: [TransferState] })
+export class AppServerModule {}
+`;
+
+const nav = `import { RouterLinkWithHref } from '@angular/router';
+
+export const links = [RouterLinkWithHref];
+`;
+
+function createProject(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-migrate-resume-'));
+  const files: Record<string, string> = {
+    'package.json': JSON.stringify({ name: 'app', dependencies: { '@angular/core': '^15.2.0' } }, null, 2) + '\n',
+    'tsconfig.json': '{}\n',
+    'src/app.server.module.ts': serverModule,
+    'src/nav.ts': nav,
+  };
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content, 'utf-8');
+  }
+  return root;
+}
+
+const options = (root: string): MigratorOptions => ({
+  projectPath: root, skipPackageJson: true, cache: false, report: false, banner: false, logger: new SilentLogger(),
+  only: ['transfer-state-imports', 'router-link-with-href'],
+});
+
+test('the journal of a resumed run covers the writes of the interrupted attempt', async () => {
+  const root = createProject();
+
+  // The first attempt finished 15 → 16 and died in 16 → 17, before writing its journal
+  await migrate({ ...options(root), fromVersion: 15, toVersion: 16 });
+  fs.rmSync(path.join(root, JOURNAL_DIR, `journal-${listJournals(root)[0].id}.json`));
+  const state = readRunState(root)!;
+  state.toVersion = 17;
+  state.steps.push({ name: 'Angular 16 → 17', from: 16, to: 17, status: 'running', writtenFiles: [], completedRules: [] });
+  saveRunState(root, state);
+  assert.notEqual(fs.readFileSync(path.join(root, 'src/app.server.module.ts'), 'utf-8'), serverModule);
+
+  await migrate({ ...options(root), resume: true });
+
+  const [journal] = listJournals(root);
+  assert.equal(journal.fromVersion, 15);
+  assert.equal(journal.toVersion, 17);
+  assert.deepEqual(journal.files.map(f => [f.path, f.before]), [
+    ['src/app.server.module.ts', serverModule],
+    ['src/nav.ts', nav],
+  ]);
+
+  revertJournal(root);
+  assert.equal(fs.readFileSync(path.join(root, 'src/app.server.module.ts'), 'utf-8'), serverModule);
+  assert.equal(fs.readFileSync(path.join(root, 'src/nav.ts'), 'utf-8'), nav);
+  fs.rmSync(root, { recursive: true });
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createRuleProgress, createRunState, diffRunOptions, getResumeStep, RunOptions } from '../src/utils/state';
+import { MigrationStep } from '../src/types';
+
+test('createRuleProgress checkpoints a rule once the next one starts', () => {
+  const checkpoints: string[][] = [];
+  const progress = createRuleProgress([], finished => checkpoints.push(finished));
+
+  progress.start(['a']);
+  assert.deepEqual(checkpoints, []);
+  progress.start(['b']);
+  assert.deepEqual(checkpoints, [['a']]);
+  progress.start(['c', 'd']);
+  assert.deepEqual(checkpoints, [['a'], ['b']]);
+});
+
+test('createRuleProgress does not checkpoint a rule restarted by its own batch', () => {
+  const checkpoints: string[][] = [];
+  const progress = createRuleProgress([], finished => checkpoints.push(finished));
+
+  // isRuleEnabled() starts the rule, then runAstRules() starts the batch it belongs to
+  progress.start(['a']);
+  progress.start(['a', 'b']);
+  assert.deepEqual(checkpoints, []);
+  progress.start(['c']);
+  assert.deepEqual(checkpoints, [['a', 'b']]);
+});
+
+test('createRuleProgress.finish checkpoints the rules still running', () => {
+  const checkpoints: string[][] = [];
+  const progress = createRuleProgress([], finished => checkpoints.push(finished));
+
+  progress.finish();
+  assert.deepEqual(checkpoints, []);
+  progress.start(['a']);
+  progress.finish();
+  assert.deepEqual(checkpoints, [['a']]);
+  progress.finish();
+  assert.deepEqual(checkpoints, [['a']]);
+});
+
+test('createRuleProgress reports rules completed by an earlier attempt', () => {
+  const progress = createRuleProgress(['a'], () => {});
+  assert.equal(progress.isCompleted('a'), true);
+  assert.equal(progress.isCompleted('b'), false);
+});
+
+test('getResumeStep returns the first step that did not complete', () => {
+  const steps = [15, 16, 17].map(to => ({ from: to - 1, to, name: `Angular ${to - 1} → ${to}` }) as MigrationStep);
+  const options: RunOptions = { plugins: [], only: null, skip: [], skipPackageJson: false };
+  const state = createRunState(steps, 14, 17, options);
+
+  assert.equal(getResumeStep(state)?.to, 15);
+  state.steps[0].status = 'completed';
+  state.steps[1].status = 'failed';
+  assert.equal(getResumeStep(state)?.to, 16);
+  state.steps.forEach(s => (s.status = 'completed'));
+  assert.equal(getResumeStep(state), null);
+});
+
+test('diffRunOptions lists the options that changed', () => {
+  const recorded: RunOptions = { plugins: [], only: null, skip: ['a'], skipPackageJson: false };
+
+  assert.deepEqual(diffRunOptions(recorded, { ...recorded }), []);
+  assert.deepEqual(diffRunOptions(recorded, { ...recorded, only: ['b'], skip: [] }), [
+    'only: all → b',
+    'skip: a → none',
+  ]);
+});
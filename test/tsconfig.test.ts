@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MigrationContext } from '../src/types';
+import { ProjectFiles } from '../src/utils/files';
+import { removeAngularCompilerOption } from '../src/utils/tsconfig';
+
+/** Remove enableIvy from a tsconfig.json with the given text, return the new text */
+function removeEnableIvy(text: string): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-migrate-tsconfig-'));
+  const file = path.join(root, 'tsconfig.json');
+  fs.writeFileSync(file, text, 'utf-8');
+  const files = new ProjectFiles(true);
+  const ctx = { projectPath: root, files, config: {} } as MigrationContext;
+
+  removeAngularCompilerOption(ctx, 'enableIvy');
+  const result = files.read(file);
+  fs.rmSync(root, { recursive: true });
+  return result;
+}
+
+test('removeAngularCompilerOption keeps the other options', () => {
+  assert.equal(removeEnableIvy(`{
+  "compilerOptions": { "strict": true },
+  "angularCompilerOptions": {
+    "enableIvy": false,
+    "strictTemplates": true
+  }
+}
+`), `{
+  "compilerOptions": { "strict": true },
+  "angularCompilerOptions": {
+    "strictTemplates": true
+  }
+}
+`);
+});
+
+test('removeAngularCompilerOption drops the comma before a removed last option', () => {
+  assert.equal(removeEnableIvy(`{
+  "angularCompilerOptions": {
+    "strictTemplates": true,
+    "enableIvy": false // Ivy off for now
+  }
+}
+`), `{
+  "angularCompilerOptions": {
+    "strictTemplates": true
+  }
+}
+`);
+});
+
+test('removeAngularCompilerOption drops angularCompilerOptions left empty', () => {
+  assert.equal(removeEnableIvy(`{
+  "compilerOptions": {
+    "strict": true
+  },
+  "angularCompilerOptions": {
+    "enableIvy": false
+  }
+}
+`), `{
+  "compilerOptions": {
+    "strict": true
+  }
+}
+`);
+  assert.equal(removeEnableIvy(`{
+  "angularCompilerOptions": { "enableIvy": false },
+  "extends": "./tsconfig.base.json"
+}
+`), `{
+  "extends": "./tsconfig.base.json"
+}
+`);
+});
+
+test('removeAngularCompilerOption leaves tsconfigs without the option alone', () => {
+  const text = `{
+  // Comments are allowed
+  "compilerOptions": { "strict": true }
+}
+`;
+  assert.equal(removeEnableIvy(text), text);
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { migrate } from '../src/migrator';
+import { SilentLogger } from '../src/utils/logger';
+
+function createProject(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-migrate-v17-'));
+  const all = {
+    'package.json': JSON.stringify({ name: 'app', dependencies: { '@angular/core': '^16.2.0' } }, null, 2) + '\n',
+    'tsconfig.json': '{}\n',
+    ...files,
+  };
+  for (const [file, content] of Object.entries(all)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content, 'utf-8');
+  }
+  return root;
+}
+
+async function runRule(root: string) {
+  const run = await migrate({
+    projectPath: root, toVersion: 17, skipPackageJson: true, cache: false, report: false, banner: false,
+    only: ['can-load-to-can-match'], logger: new SilentLogger(),
+  });
+  return run.results[0];
+}
+
+test('can-load-to-can-match migrates guard classes, their call sites and route properties', async () => {
+  const root = createProject({
+    'src/auth.guard.ts': `import { Injectable } from '@angular/core';
+import { CanActivate, CanLoad, Route, UrlSegment } from '@angular/router';
+
+@Injectable({ providedIn: 'root' })
+export class AuthGuard implements CanActivate, CanLoad {
+  canActivate() {
+    return true;
+  }
+
+  canLoad(route: Route, segments: UrlSegment[]) {
+    return segments.length > 0;
+  }
+}
+`,
+    'src/auth.guard.spec.ts': `import { AuthGuard } from './auth.guard';
+
+const allowed = new AuthGuard().canLoad({}, []);
+`,
+    'src/app.routes.ts': `import { Routes } from '@angular/router';
+import { AuthGuard } from './auth.guard';
+
+export const routes: Routes = [
+  { path: 'admin', loadChildren: () => import('./admin').then(m => m.AdminModule), canLoad: [AuthGuard] },
+];
+`,
+  });
+  const result = await runRule(root);
+  const read = (file: string) => fs.readFileSync(path.join(root, file), 'utf-8');
+
+  assert.match(read('src/auth.guard.ts'), /import \{ CanActivate, CanMatch, Route, UrlSegment \} from '@angular\/router';/);
+  assert.match(read('src/auth.guard.ts'), /implements CanActivate, CanMatch \{/);
+  assert.match(read('src/auth.guard.ts'), /  canMatch\(route: Route, segments: UrlSegment\[\]\) \{/);
+  assert.match(read('src/auth.guard.spec.ts'), /new AuthGuard\(\)\.canMatch\(\{\}, \[\]\)/);
+  assert.match(read('src/app.routes.ts'), /canMatch: \[AuthGuard\] \}/);
+  assert.doesNotMatch(read('src/app.routes.ts') + read('src/auth.guard.ts'), /canLoad|CanLoad/);
+  assert.deepEqual(result.warnings, []);
+  fs.rmSync(root, { recursive: true });
+});
+
+test('can-load-to-can-match flags guards and routes that already have canMatch', async () => {
+  const root = createProject({
+    'src/auth.guard.ts': `import { CanLoad, CanMatch } from '@angular/router';
+
+export class AuthGuard implements CanLoad, CanMatch {
+  canLoad() {
+    return true;
+  }
+
+  canMatch() {
+    return true;
+  }
+}
+`,
+    'src/app.routes.ts': `export const routes = [
+  { path: 'admin', canLoad: [() => true], canMatch: [() => true] },
+];
+`,
+  });
+  const result = await runRule(root);
+  const guard = fs.readFileSync(path.join(root, 'src/auth.guard.ts'), 'utf-8');
+
+  assert.match(guard, /^import \{ CanMatch \} from '@angular\/router';/);
+  assert.match(guard, /export class AuthGuard implements CanMatch \{/);
+  assert.deepEqual(result.warnings.map(w => [path.basename(w.file), w.line, w.severity]), [
+    ['app.routes.ts', 2, 'error'],
+    ['auth.guard.ts', 4, 'error'],
+  ]);
+  fs.rmSync(root, { recursive: true });
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { migrate } from '../src/migrator';
+import { SilentLogger } from '../src/utils/logger';
+
+function createProject(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-migrate-v19-'));
+  const all = {
+    'package.json': JSON.stringify({ name: 'app', dependencies: { '@angular/core': '^18.2.0' } }, null, 2) + '\n',
+    'tsconfig.json': '{}\n',
+    ...files,
+  };
+  for (const [file, content] of Object.entries(all)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content, 'utf-8');
+  }
+  return root;
+}
+
+test('key-value-differs-import reports its change and the remaining usage', async () => {
+  const root = createProject({
+    'src/differ.ts': `import { Injectable, KeyValueDiffers } from '@angular/core';
+
+@Injectable()
+export class Differ {
+  constructor(private differs: KeyValueDiffers) {}
+}
+`,
+  });
+  const run = await migrate({
+    projectPath: root, toVersion: 19, dryRun: true, cache: false, banner: false,
+    only: ['key-value-differs-import'], logger: new SilentLogger(),
+  });
+
+  const [result] = run.results;
+  assert.deepEqual(result.changes.map(c => c.description), [`Removed obsolete import 'KeyValueDiffers' from '@angular/core'`]);
+  assert.equal(result.warnings.length, 1);
+  assert.equal(result.warnings[0].rule, 'key-value-differs-import');
+  assert.equal(result.warnings[0].line, 5);
+  fs.rmSync(root, { recursive: true });
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isNodeVersionAllowed, minVersion, rangeAllowsMajor, rangeAllowsVersion } from '../src/utils/versions';
+
+test('rangeAllowsMajor reads caret ranges', () => {
+  assert.equal(rangeAllowsMajor('^17.0.0', 17), true);
+  assert.equal(rangeAllowsMajor('^17.0.0', 18), false);
+  assert.equal(rangeAllowsMajor('^17.0.0', 16), false);
+  assert.equal(rangeAllowsMajor('^0.15.0', 20), false);
+  assert.equal(rangeAllowsMajor('^0.x', 0), true);
+  assert.equal(rangeAllowsMajor('^0.x', 1), false);
+});
+
+test('rangeAllowsMajor reads tilde ranges', () => {
+  assert.equal(rangeAllowsMajor('~17.2.0', 17), true);
+  assert.equal(rangeAllowsMajor('~17.2.0', 18), false);
+  assert.equal(rangeAllowsMajor('~17', 17), true);
+  assert.equal(rangeAllowsMajor('~17', 18), false);
+});
+
+test('rangeAllowsMajor reads || alternatives', () => {
+  assert.equal(rangeAllowsMajor('^15.0.0 || ^16.0.0', 16), true);
+  assert.equal(rangeAllowsMajor('^15.0.0 || ^16.0.0', 17), false);
+  assert.equal(rangeAllowsMajor('>=14 <16 || >=18', 15), true);
+  assert.equal(rangeAllowsMajor('>=14 <16 || >=18', 17), false);
+  assert.equal(rangeAllowsMajor('>=14 <16 || >=18', 20), true);
+});
+
+test('rangeAllowsMajor reads comparator sets', () => {
+  assert.equal(rangeAllowsMajor('>=14.0.0 <17.0.0', 16), true);
+  assert.equal(rangeAllowsMajor('>=14 <17', 17), false);
+  assert.equal(rangeAllowsMajor('>= 15.0.0 < 18.0.0', 17), true);
+  assert.equal(rangeAllowsMajor('<=18', 18), true);
+  assert.equal(rangeAllowsMajor('<18.1.0', 18), true);
+  assert.equal(rangeAllowsMajor('>17.9.9', 17), true);
+  assert.equal(rangeAllowsMajor('>17', 17), false);
+  assert.equal(rangeAllowsMajor('>=19.0.0-rc.0', 19), true);
+});
+
+test('rangeAllowsMajor reads hyphen ranges', () => {
+  assert.equal(rangeAllowsMajor('15 - 17', 17), true);
+  assert.equal(rangeAllowsMajor('15 - 17', 18), false);
+  assert.equal(rangeAllowsMajor('15.0.0 - 17.0.0', 17), true);
+  assert.equal(rangeAllowsMajor('15.0.0 - 17.0.0', 14), false);
+});
+
+test('rangeAllowsMajor reads x-ranges', () => {
+  assert.equal(rangeAllowsMajor('17.x', 17), true);
+  assert.equal(rangeAllowsMajor('17.x', 18), false);
+  assert.equal(rangeAllowsMajor('17.2.x', 17), true);
+  assert.equal(rangeAllowsMajor('17', 17), true);
+  assert.equal(rangeAllowsMajor('*', 20), true);
+  assert.equal(rangeAllowsMajor('x', 20), true);
+  assert.equal(rangeAllowsMajor('', 20), true);
+});
+
+test('rangeAllowsMajor returns null for ranges it can not read', () => {
+  assert.equal(rangeAllowsMajor('workspace:*', 17), null);
+  assert.equal(rangeAllowsMajor('latest', 17), null);
+  assert.equal(rangeAllowsMajor('github:angular/angular', 17), null);
+});
+
+test('rangeAllowsVersion checks a single version', () => {
+  assert.equal(rangeAllowsVersion('^15.2.0', '15.2.10'), true);
+  assert.equal(rangeAllowsVersion('^15.2.0', '15.1.9'), false);
+  assert.equal(rangeAllowsVersion('~15.2.0', '15.3.0'), false);
+  assert.equal(rangeAllowsVersion('^16.0.0 || ^17.0.0', '15.2.10'), false);
+  assert.equal(rangeAllowsVersion('15 - 17', '17.3.1'), true);
+  assert.equal(rangeAllowsVersion('15.0.0 - 17.0.0', '17.0.1'), false);
+  assert.equal(rangeAllowsVersion('17.x', '17.3.1'), true);
+  assert.equal(rangeAllowsVersion('>17.0.0', '17.0.0'), false);
+  assert.equal(rangeAllowsVersion('<=17.0.0', '17.0.0'), true);
+  assert.equal(rangeAllowsVersion('^0.0.3', '0.0.4'), false);
+  assert.equal(rangeAllowsVersion('^0.2', '0.3.0'), false);
+  assert.equal(rangeAllowsVersion('^0.x', '0.5.0'), true);
+  assert.equal(rangeAllowsVersion('^17.0.0', 'next'), null);
+});
+
+test('isNodeVersionAllowed matches a bare major against the whole line', () => {
+  assert.equal(isNodeVersionAllowed('18', '^18.19.1 || ^20.11.1 || >=22.0.0'), true);
+  assert.equal(isNodeVersionAllowed('18.13.0', '^18.19.1 || ^20.11.1 || >=22.0.0'), false);
+  assert.equal(isNodeVersionAllowed('v23.1.0', '^18.19.1 || ^20.11.1 || >=22.0.0'), true);
+  assert.equal(isNodeVersionAllowed('lts/*', '^20.11.1'), null);
+});
+
+test('minVersion reads the first version of a range', () => {
+  assert.deepEqual(minVersion('^5.4.2'), [5, 4, 2]);
+  assert.deepEqual(minVersion('>=18.13'), [18, 13, 0]);
+  assert.deepEqual(minVersion('v20'), [20, 0, 0]);
+  assert.equal(minVersion('file:../lib'), null);
+});